@@ -0,0 +1,40 @@
+import {
+	getItem,
+	setItem,
+	removeItem,
+	keys,
+	closeDB,
+	type IndexedDBOptions
+} from './indexeddb-storage.js';
+
+/**
+ * Asynchronous key/value backend used by `persistedStateAsync`. Implement it to persist
+ * to the Cache API, OPFS files, localForage, or an in-memory fake in unit tests.
+ */
+export interface AsyncStorageAdapter {
+	/** Identifies the backend; instances sharing a name and key are synced across tabs. */
+	readonly name: string;
+	/** Resolves to `null` when there is no entry for `key`. */
+	getItem(key: string): Promise<unknown>;
+	setItem(key: string, value: unknown): Promise<void>;
+	removeItem(key: string): Promise<void>;
+	keys(): Promise<string[]>;
+	/**
+	 * Notifies about changes made outside of this instance. `newValue` is `null` when the
+	 * entry was removed. Returns an unsubscribe function.
+	 */
+	subscribe?(key: string, callback: (newValue: unknown) => void): () => void;
+	/** Releases resources such as open connections. */
+	close?(): void;
+}
+
+export function indexedDBAdapter(options: IndexedDBOptions = {}): AsyncStorageAdapter {
+	return {
+		name: options.dbName ?? 'svelte-persisted-state',
+		getItem: (k) => getItem(k, options),
+		setItem: (k, v) => setItem(k, v, options),
+		removeItem: (k) => removeItem(k, options),
+		keys: () => keys(options),
+		close: () => closeDB(options)
+	};
+}
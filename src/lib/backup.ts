@@ -0,0 +1,157 @@
+import { indexedDBAdapter } from './async-storage-adapters.js';
+import { entries, type IndexedDBOptions } from './indexeddb-storage.js';
+import {
+	cookieStorageAdapter,
+	localStorageAdapter,
+	type CookieOptions,
+	type StorageAdapter
+} from './storage-adapters.js';
+import { fromJSONValue, toJSONValue } from './json-value.js';
+import { clearOperationLog } from './operation-log.js';
+import { ValidationError, type StandardSchemaIssue } from './validation.js';
+
+const BACKUP_FORMAT = 'svelte-persisted-state';
+const BACKUP_VERSION = 1;
+
+export type BackupSource = 'local' | 'cookie' | 'indexedDB';
+
+export interface PersistedBackup {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	createdAt: string;
+	/** Raw stored strings, so versioned, compressed and encrypted values are kept as is. */
+	local?: Record<string, string>;
+	cookie?: Record<string, string>;
+	/** IndexedDB values, with `Date`, `Map`, `Set`, bigint and undefined tagged to survive JSON. */
+	indexedDB?: Record<string, unknown>;
+}
+
+export interface BackupOptions {
+	/** Storages to back up or restore (default: all of them). */
+	include?: BackupSource[];
+	/** Only keys for which this returns true are included, e.g. to leave out third-party cookies. */
+	filter?: (key: string, source: BackupSource) => boolean;
+	indexedDB?: IndexedDBOptions;
+	/** Attributes of restored cookies. */
+	cookieOptions?: CookieOptions;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assertBackup(value: unknown): asserts value is PersistedBackup {
+	const issues: StandardSchemaIssue[] = [];
+
+	if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+		issues.push({ message: 'not a svelte-persisted-state backup', path: ['format'] });
+	} else {
+		if (typeof value.version !== 'number' || value.version > BACKUP_VERSION) {
+			issues.push({ message: `unsupported backup version ${value.version}`, path: ['version'] });
+		}
+		for (const source of ['local', 'cookie'] as const) {
+			if (value[source] === undefined) continue;
+			if (!isRecord(value[source])) {
+				issues.push({ message: `${source} must be an object`, path: [source] });
+				continue;
+			}
+			for (const [key, item] of Object.entries(value[source])) {
+				if (typeof item !== 'string') {
+					issues.push({ message: `${source} values must be strings`, path: [source, key] });
+				}
+			}
+		}
+		if (value.indexedDB !== undefined && !isRecord(value.indexedDB)) {
+			issues.push({ message: 'indexedDB must be an object', path: ['indexedDB'] });
+		}
+	}
+
+	if (issues.length) throw new ValidationError(issues, value);
+}
+
+function readAll(adapter: StorageAdapter, source: BackupSource, filter: BackupOptions['filter']) {
+	const result: Record<string, string> = {};
+	for (const key of adapter.keys?.() ?? []) {
+		const item = adapter.getItem(key);
+		if (item !== null && (!filter || filter(key, source))) result[key] = item;
+	}
+	return result;
+}
+
+/**
+ * Gathers the values of localStorage, cookies and an IndexedDB store into a JSON-safe
+ * document, e.g. to move settings to another browser with `importBackup`.
+ */
+export async function exportBackup(options: BackupOptions = {}): Promise<PersistedBackup> {
+	const { include = ['local', 'cookie', 'indexedDB'], filter } = options;
+	const backup: PersistedBackup = {
+		format: BACKUP_FORMAT,
+		version: BACKUP_VERSION,
+		createdAt: new Date().toISOString()
+	};
+
+	if (include.includes('local')) backup.local = readAll(localStorageAdapter, 'local', filter);
+	if (include.includes('cookie')) backup.cookie = readAll(cookieStorageAdapter(), 'cookie', filter);
+	if (include.includes('indexedDB')) {
+		const stored = await entries(options.indexedDB);
+		backup.indexedDB = Object.fromEntries(
+			stored
+				.filter(([key]) => !filter || filter(key, 'indexedDB'))
+				.map(([key, value]) => [key, toJSONValue(value)])
+		);
+	}
+
+	return backup;
+}
+
+/**
+ * Validates a backup made by `exportBackup` (as object or JSON string) and writes it back.
+ * Keys missing from the backup are kept. Live states of this tab and other tabs pick up
+ * the restored values.
+ *
+ * @throws {ValidationError} when the document is not a supported backup; nothing is written then.
+ */
+export async function importBackup(
+	backup: PersistedBackup | string,
+	options: BackupOptions = {}
+): Promise<void> {
+	const { include = ['local', 'cookie', 'indexedDB'], filter } = options;
+	const document: unknown = typeof backup === 'string' ? JSON.parse(backup) : backup;
+	assertBackup(document);
+
+	const restore = <V>(source: BackupSource, values: Record<string, V> | undefined) =>
+		include.includes(source)
+			? Object.entries(values ?? {}).filter(([key]) => !filter || filter(key, source))
+			: [];
+
+	for (const [key, value] of restore('local', document.local)) {
+		localStorageAdapter.setItem(key, value);
+		// The browser only notifies other tabs, states of this tab listen to the same event
+		window.dispatchEvent(
+			new StorageEvent('storage', { key, newValue: value, storageArea: localStorage })
+		);
+	}
+
+	// Cookie writes are broadcast to every cookie-backed state
+	const cookies = cookieStorageAdapter(options.cookieOptions);
+	for (const [key, value] of restore('cookie', document.cookie)) {
+		cookies.setItem(key, value);
+	}
+
+	const restored = restore('indexedDB', document.indexedDB);
+	if (restored.length === 0) return;
+
+	const storage = indexedDBAdapter(options.indexedDB);
+	const channel =
+		typeof BroadcastChannel !== 'undefined'
+			? new BroadcastChannel(`svelte-persisted-state:${storage.name}`)
+			: null;
+	// Logged changes of the replaced values are dropped, the backup brings its own
+	for (const [key] of restored) await clearOperationLog(key, options.indexedDB ?? {});
+	for (const [key, json] of restored) {
+		const value = fromJSONValue(json);
+		await storage.setItem(key, value);
+		channel?.postMessage({ key, value });
+	}
+	channel?.close();
+}
@@ -0,0 +1,167 @@
+import { decodeEnvelope, encodeEnvelope, unwrap, wrap, type EnvelopeMeta } from './envelope.js';
+import { migrate, UNVERSIONED, type Migrations } from './migrations.js';
+import { validateAsync, validateSync, type ValidationOptions } from './validation.js';
+import { createCipher, isEncrypted, type EncryptionOptions } from './encryption.js';
+import {
+	compressStream,
+	compressSync,
+	decompressStream,
+	decompressSync,
+	isStreamCompressed,
+	resolveCompression,
+	type CompressionOptions
+} from './compression.js';
+import { isExpired } from './expiry.js';
+import { fromJSONValue, toJSONValue } from './json-value.js';
+import { selectPaths } from './paths.js';
+import { mergeStored, type MergeOptions } from './merge.js';
+import type { WriteStamp } from './conflict.js';
+
+export type Serializer<T> = {
+	parse: (text: string) => T;
+	stringify: (object: T) => string;
+};
+
+/** Options shared by every path that reads or writes a stored value. */
+export interface CodecOptions<T> extends ValidationOptions<T>, MergeOptions<T> {
+	serializer?: Serializer<T>;
+	beforeRead?: (value: T) => T;
+	beforeWrite?: (value: T) => T;
+	version?: number;
+	migrations?: Migrations;
+	/** `true` uses the default threshold and format. */
+	compression?: CompressionOptions | boolean;
+}
+
+export interface Decoded<T> {
+	value: T;
+	expiresAt?: number;
+	stamp?: WriteStamp;
+}
+
+/**
+ * Converts between state values and the strings kept by a `StorageAdapter`.
+ * Expired values decode to `null`.
+ */
+export interface Codec<T> {
+	decode(raw: string): Decoded<T> | null;
+	encode(value: T, expiresAt?: number, stamp?: WriteStamp): string;
+}
+
+/** Converts between state values and the values kept by an `AsyncStorageAdapter`. */
+export interface AsyncCodec<T> {
+	decode(stored: unknown): Promise<Decoded<T> | null>;
+	encode(value: T, expiresAt?: number, stamp?: WriteStamp): Promise<unknown>;
+	/** The data stored for `value`: `beforeWrite`, `pick` / `omit` and `serializer` applied. */
+	persisted(value: T): unknown;
+	/** The data and metadata of a stored value, decrypted and decompressed. */
+	unpack(stored: unknown): Promise<{ data: unknown; meta: EnvelopeMeta }>;
+	/** Turns stored data back into a value; expired data decodes to `null`. */
+	restore(data: unknown, meta: EnvelopeMeta): Promise<Decoded<T> | null>;
+}
+
+export interface AsyncCodecOptions<T> extends CodecOptions<T> {
+	encryption?: EncryptionOptions;
+}
+
+function upgrade<T>(value: unknown, storedVersion: number | undefined, options: CodecOptions<T>) {
+	const { version, migrations = {} } = options;
+	if (version === undefined) return value as T;
+	return migrate<T>(value, storedVersion ?? UNVERSIONED, version, migrations);
+}
+
+export function createCodec<T>(initialValue: T, options: CodecOptions<T> = {}): Codec<T> {
+	const {
+		serializer = JSON,
+		beforeRead = (v: T) => v,
+		beforeWrite = (v: T) => v,
+		version
+	} = options;
+	const compression = resolveCompression(options.compression);
+
+	return {
+		decode(raw) {
+			const { data, meta } = decodeEnvelope(decompressSync(raw));
+			if (isExpired(meta.expiresAt)) return null;
+			const value = mergeStored(
+				upgrade<T>(serializer.parse(data), meta.version, options),
+				initialValue,
+				options
+			);
+			return {
+				value: beforeRead(validateSync(value, initialValue, options)),
+				expiresAt: meta.expiresAt,
+				stamp: meta.stamp
+			};
+		},
+		encode(value, expiresAt, stamp) {
+			const persisted = selectPaths(beforeWrite(value), options) as T;
+			const encoded = encodeEnvelope(serializer.stringify(persisted), {
+				version,
+				expiresAt,
+				stamp
+			});
+			return compression ? compressSync(encoded, compression) : encoded;
+		}
+	};
+}
+
+/**
+ * Without a serializer, values are stored as is and rely on structured cloning.
+ * Compressed and encrypted values are JSON encoded first, since both work on strings;
+ * `Date`, `Map`, `Set`, bigint and undefined members are tagged to survive it.
+ */
+export function createAsyncCodec<T>(
+	initialValue: T,
+	options: AsyncCodecOptions<T> = {}
+): AsyncCodec<T> {
+	const {
+		serializer,
+		beforeRead = (v: T) => v,
+		beforeWrite = (v: T) => v,
+		version,
+		encryption
+	} = options;
+	const cipher = encryption ? createCipher(encryption) : null;
+	const compression = resolveCompression(options.compression);
+
+	const codec: AsyncCodec<T> = {
+		async decode(stored) {
+			const { data, meta } = await codec.unpack(stored);
+			return codec.restore(data, meta);
+		},
+		async encode(value, expiresAt, stamp) {
+			let encoded = wrap(codec.persisted(value), { version, expiresAt, stamp });
+			if (compression) {
+				const json = JSON.stringify(toJSONValue(encoded));
+				const compressed = await compressStream(json, compression);
+				if (compressed !== json) encoded = compressed;
+			}
+			return cipher ? cipher.encrypt(JSON.stringify(toJSONValue(encoded))) : encoded;
+		},
+		persisted(value) {
+			const transformed = selectPaths(beforeWrite(value), options) as T;
+			return serializer ? serializer.stringify(transformed) : transformed;
+		},
+		async unpack(stored) {
+			if (cipher && isEncrypted(stored)) {
+				stored = fromJSONValue(JSON.parse(await cipher.decrypt(stored)));
+			}
+			if (isStreamCompressed(stored)) {
+				stored = fromJSONValue(JSON.parse(await decompressStream(stored)));
+			}
+			return unwrap(stored);
+		},
+		async restore(data, meta) {
+			if (isExpired(meta.expiresAt)) return null;
+			const parsed = serializer ? serializer.parse(data as string) : data;
+			const value = mergeStored(upgrade<T>(parsed, meta.version, options), initialValue, options);
+			return {
+				value: beforeRead(await validateAsync(value, initialValue, options)),
+				expiresAt: meta.expiresAt,
+				stamp: meta.stamp
+			};
+		}
+	};
+	return codec;
+}
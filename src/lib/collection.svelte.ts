@@ -0,0 +1,262 @@
+import { untrack } from 'svelte';
+import {
+	clearRecords,
+	getRecords,
+	writeRecords,
+	type IndexedDBOptions,
+	type RecordChanges
+} from './indexeddb-storage.js';
+import { isEqual } from './equal.js';
+import { createWriteScheduler, type WriteSchedulingOptions } from './write-scheduler.js';
+
+/** Properties of `T` that can key its records. */
+type KeyProperty<T> = {
+	[K in keyof T & string]: T[K] extends string | number ? K : never;
+}[keyof T & string];
+
+export interface CollectionOptions<T> extends WriteSchedulingOptions {
+	/** Property identifying each item; items are stored and loaded in the order of this key. */
+	keyPath: KeyProperty<T>;
+	/** Defaults to the 'items' store of a database named `svelte-persisted-state:<name>`. */
+	indexedDB?: IndexedDBOptions;
+	/** Number of items read per page (default: all at once). */
+	pageSize?: number;
+	/** Only load the first page on creation; further pages are loaded by `loadMore()`. */
+	lazy?: boolean;
+	syncTabs?: boolean;
+	onWriteError?: (error: unknown) => void;
+	onHydrationError?: (error: unknown) => void;
+}
+
+export interface PersistedCollection<T> {
+	get current(): T[];
+	set current(items: T[]);
+	readonly isLoading: boolean;
+	/** Whether stored items are left to load with `loadMore()`. */
+	readonly hasMore: boolean;
+	/** Resolves with the items once the first page (all pages unless `lazy`) is loaded. */
+	readonly ready: Promise<T[]>;
+	/** Loads the next page; resolves to `false` when every item is loaded. */
+	loadMore(): Promise<boolean>;
+	/** Deletes every stored item, including those not loaded yet. */
+	clear(): Promise<void>;
+	/** Writes any pending debounced or throttled change immediately. */
+	flush(): Promise<void>;
+}
+
+interface CollectionMessage extends RecordChanges {
+	cleared?: boolean;
+}
+
+/** Where the records of a collection are stored. */
+export function collectionDB(name: string, indexedDB?: IndexedDBOptions): IndexedDBOptions {
+	return { dbName: `svelte-persisted-state:${name}`, storeName: 'items', ...indexedDB };
+}
+
+/** Collections post their changes on this channel, also read by `persistedQuery`. */
+export function collectionChannelName({ dbName, storeName }: IndexedDBOptions): string {
+	return `svelte-persisted-state:collection:${dbName}:${storeName}`;
+}
+
+/**
+ * An array persisted as one IndexedDB record per item. Changes are diffed against what
+ * is stored, so only added, changed and removed items are written, in one transaction.
+ */
+export function persistedCollection<T extends object>(
+	name: string,
+	options: CollectionOptions<T>
+): PersistedCollection<T> {
+	const {
+		keyPath,
+		pageSize,
+		lazy = false,
+		syncTabs = true,
+		onWriteError = console.error,
+		onHydrationError = console.error
+	} = options;
+
+	const indexedDBOptions = collectionDB(name, options.indexedDB);
+	const browser = typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+	const keyOf = (item: T) => item[keyPath] as IDBValidKey;
+
+	let items = $state<T[]>([]);
+	let isLoading = $state(browser);
+	let hasMore = $state(browser);
+	// Stored version of every loaded item, which changes are diffed against
+	let persisted = new Map<IDBValidKey, T>();
+	// Key of the last loaded item, pages continue after it
+	let cursor: IDBValidKey | undefined;
+
+	let broadcastChannel: BroadcastChannel | null = null;
+	let lastWrite: Promise<void> = Promise.resolve();
+	// Pages are loaded one after another, each continuing after the previous one
+	let lastPage: Promise<boolean> = Promise.resolve(true);
+	const scheduler = createWriteScheduler(options);
+
+	function isLoaded(key: IDBValidKey) {
+		return !hasMore || (cursor !== undefined && indexedDB.cmp(key, cursor) <= 0);
+	}
+
+	function loadPage(): Promise<boolean> {
+		// A failed page can be retried
+		lastPage = lastPage.catch(() => true).then(() => (hasMore ? readPage() : false));
+		return lastPage;
+	}
+
+	async function readPage(): Promise<boolean> {
+		const page = await getRecords<T>(indexedDBOptions, cursor, pageSize);
+		const local = new Set(untrack(() => items).map(keyOf));
+
+		for (const [key, item] of page) persisted.set(key, item);
+		// Items added locally in the meantime win over their stored version
+		const loaded = page.filter(([key]) => !local.has(key)).map(([, item]) => item);
+		if (loaded.length) items.push(...loaded);
+
+		if (page.length) cursor = page[page.length - 1][0];
+		hasMore = pageSize !== undefined && page.length === pageSize;
+		return hasMore;
+	}
+
+	async function hydrate(): Promise<T[]> {
+		if (!browser) {
+			isLoading = false;
+			return items;
+		}
+
+		try {
+			let more = await loadPage();
+			while (more && !lazy) more = await loadPage();
+			return items;
+		} catch (error) {
+			onHydrationError(error);
+			throw error;
+		} finally {
+			isLoading = false;
+		}
+	}
+
+	/** Compares the items with their stored version, which is updated right away. */
+	function diff(snapshot: T[]): RecordChanges {
+		const next = new Map(snapshot.map((item) => [keyOf(item), item]));
+		const changes: RecordChanges = {
+			put: [...next].filter(([key, item]) => !isEqual(persisted.get(key), item)),
+			delete: [...persisted.keys()].filter((key) => !next.has(key))
+		};
+		persisted = next;
+		return changes;
+	}
+
+	function write(snapshot: T[]) {
+		const changes = diff(snapshot);
+		if (!changes.put.length && !changes.delete.length) return;
+
+		lastWrite = lastWrite
+			.then(async () => {
+				await writeRecords(changes, indexedDBOptions);
+				broadcastChannel?.postMessage(changes satisfies CollectionMessage);
+			})
+			.catch(onWriteError);
+	}
+
+	/** Applies the changes of another tab; the items then match storage and are not written. */
+	function applyRemote(message: CollectionMessage) {
+		if (message.cleared) {
+			persisted = new Map();
+			hasMore = false;
+			items = [];
+			return;
+		}
+
+		const removed = new Set(message.delete);
+		const updated = new Map(message.put);
+		const next = ($state.snapshot(items) as T[]).filter((item) => !removed.has(keyOf(item)));
+		removed.forEach((key) => persisted.delete(key));
+
+		for (const [key, item] of updated as Map<IDBValidKey, T>) {
+			const index = next.findIndex((existing) => keyOf(existing) === key);
+			if (index !== -1) {
+				next[index] = item;
+			} else if (!isLoaded(key)) {
+				// Comes with a later page
+				continue;
+			} else {
+				next.push(item);
+			}
+			persisted.set(key, item);
+		}
+		items = next;
+	}
+
+	if (browser && syncTabs) {
+		broadcastChannel = new BroadcastChannel(collectionChannelName(indexedDBOptions));
+		broadcastChannel.onmessage = (event: MessageEvent<CollectionMessage>) => {
+			scheduler.flush();
+			applyRemote(event.data);
+		};
+	}
+
+	const ready = hydrate();
+	ready.catch(() => {
+		// Reported through onHydrationError
+	});
+
+	$effect.root(() => {
+		let isFirstRun = true;
+
+		$effect(() => {
+			const snapshot = $state.snapshot(items) as T[];
+
+			if (isFirstRun) {
+				isFirstRun = false;
+				return;
+			}
+			if (browser) scheduler.schedule(() => write(snapshot));
+		});
+
+		return () => {
+			scheduler.flush();
+			scheduler.dispose();
+			broadcastChannel?.close();
+		};
+	});
+
+	return {
+		get current() {
+			return items;
+		},
+		set current(newItems: T[]) {
+			items = newItems;
+		},
+		get isLoading() {
+			return isLoading;
+		},
+		get hasMore() {
+			return hasMore;
+		},
+		get ready() {
+			return ready;
+		},
+		async loadMore() {
+			await ready.catch(() => undefined);
+			if (!hasMore) return false;
+			return loadPage();
+		},
+		async clear() {
+			scheduler.cancel();
+			persisted = new Map();
+			hasMore = false;
+			items = [];
+			await lastWrite;
+			try {
+				await clearRecords(indexedDBOptions);
+				broadcastChannel?.postMessage({ put: [], delete: [], cleared: true });
+			} catch (error) {
+				onWriteError(error);
+			}
+		},
+		flush() {
+			scheduler.flush();
+			return lastWrite;
+		}
+	};
+}
@@ -0,0 +1,188 @@
+import { fromBase64, toBase64 } from './base64.js';
+
+export type CompressionFormat = 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+	/** Values shorter than this many characters are stored uncompressed (default: 1024). */
+	threshold?: number;
+	/** CompressionStream format used by `persistedStateAsync` (default: 'gzip'). */
+	format?: CompressionFormat;
+}
+
+const DEFAULT_THRESHOLD = 1024;
+const LZ_PREFIX = 'lz:v1:';
+const STREAM_PREFIXES: Record<CompressionFormat, string> = {
+	gzip: 'gz:v1:',
+	deflate: 'df:v1:'
+};
+
+// Packing 15 bits per UTF-16 code unit, shifted past the control characters, keeps the
+// output clear of surrogates so every storage accepts it.
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+export function resolveCompression(
+	compression: CompressionOptions | boolean | undefined
+): Required<CompressionOptions> | null {
+	if (!compression) return null;
+	const { threshold = DEFAULT_THRESHOLD, format = 'gzip' } =
+		compression === true ? {} : compression;
+	return { threshold, format };
+}
+
+function bitsFor(size: number): number {
+	return size <= 1 ? 1 : 32 - Math.clz32(size - 1);
+}
+
+function createBitWriter() {
+	const chars: string[] = [];
+	let buffer = 0;
+	let length = 0;
+
+	return {
+		write(value: number, bits: number) {
+			for (let i = bits - 1; i >= 0; i--) {
+				buffer = (buffer << 1) | ((value >> i) & 1);
+				if (++length === BITS_PER_CHAR) {
+					chars.push(String.fromCharCode(buffer + CHAR_OFFSET));
+					buffer = 0;
+					length = 0;
+				}
+			}
+		},
+		end() {
+			if (length > 0) {
+				chars.push(String.fromCharCode((buffer << (BITS_PER_CHAR - length)) + CHAR_OFFSET));
+			}
+			return chars.join('');
+		}
+	};
+}
+
+function createBitReader(text: string) {
+	let index = 0;
+	let current = 0;
+	let remaining = 0;
+
+	return {
+		read(bits: number) {
+			let value = 0;
+			for (let i = 0; i < bits; i++) {
+				if (remaining === 0) {
+					current = text.charCodeAt(index++) - CHAR_OFFSET;
+					remaining = BITS_PER_CHAR;
+				}
+				value = (value << 1) | ((current >> --remaining) & 1);
+			}
+			return value;
+		}
+	};
+}
+
+/**
+ * LZW over UTF-16 code units. The output starts with the number of codes and the
+ * alphabet of the input, which seeds the dictionary on both sides.
+ */
+function lzCompress(text: string): string {
+	const dictionary = new Map<string, number>();
+	for (let i = 0; i < text.length; i++) {
+		const char = text.charAt(i);
+		if (!dictionary.has(char)) dictionary.set(char, dictionary.size);
+	}
+
+	const codes: number[] = [];
+	let size = dictionary.size;
+	let word = text.charAt(0);
+	for (let i = 1; i < text.length; i++) {
+		const char = text.charAt(i);
+		const extended = word + char;
+		if (dictionary.has(extended)) {
+			word = extended;
+		} else {
+			codes.push(dictionary.get(word)!);
+			dictionary.set(extended, size++);
+			word = char;
+		}
+	}
+	if (word) codes.push(dictionary.get(word)!);
+
+	const writer = createBitWriter();
+	writer.write(codes.length >>> 16, 16);
+	writer.write(codes.length & 0xffff, 16);
+
+	const alphabet = [...dictionary.keys()].filter((entry) => entry.length === 1);
+	writer.write(alphabet.length, 17);
+	for (const char of alphabet) writer.write(char.charCodeAt(0), 16);
+
+	// Each code is written with just enough bits for the dictionary at that point
+	codes.forEach((code, i) => writer.write(code, bitsFor(alphabet.length + i)));
+	return writer.end();
+}
+
+function lzDecompress(text: string): string {
+	const reader = createBitReader(text);
+	const count = reader.read(16) * 0x10000 + reader.read(16);
+
+	const entries: string[] = [];
+	const alphabetLength = reader.read(17);
+	for (let i = 0; i < alphabetLength; i++) entries.push(String.fromCharCode(reader.read(16)));
+	if (count === 0) return '';
+
+	let previous = entries[reader.read(bitsFor(entries.length))];
+	const output = [previous];
+	for (let i = 1; i < count; i++) {
+		const code = reader.read(bitsFor(entries.length + 1));
+		// The encoder may reference the entry it is about to create (the "KwKwK" case)
+		const entry = code < entries.length ? entries[code] : previous + previous.charAt(0);
+		entries.push(previous + entry.charAt(0));
+		output.push(entry);
+		previous = entry;
+	}
+	return output.join('');
+}
+
+/** Compresses `text` when it reaches the threshold and actually gets shorter. */
+export function compressSync(text: string, { threshold }: Required<CompressionOptions>): string {
+	if (text.length < threshold) return text;
+	const compressed = LZ_PREFIX + lzCompress(text);
+	return compressed.length < text.length ? compressed : text;
+}
+
+/** Uncompressed values are returned as is. */
+export function decompressSync(text: string): string {
+	return text.startsWith(LZ_PREFIX) ? lzDecompress(text.slice(LZ_PREFIX.length)) : text;
+}
+
+function streamFormat(value: unknown): CompressionFormat | null {
+	if (typeof value !== 'string') return null;
+	for (const [format, prefix] of Object.entries(STREAM_PREFIXES)) {
+		if (value.startsWith(prefix)) return format as CompressionFormat;
+	}
+	return null;
+}
+
+export function isStreamCompressed(value: unknown): value is string {
+	return streamFormat(value) !== null;
+}
+
+/** Like `compressSync`, using CompressionStream; values are left as is where it is unavailable. */
+export async function compressStream(
+	text: string,
+	{ threshold, format }: Required<CompressionOptions>
+): Promise<string> {
+	if (text.length < threshold || typeof CompressionStream === 'undefined') return text;
+
+	const stream = new Response(text).body!.pipeThrough(new CompressionStream(format));
+	const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+	const compressed = STREAM_PREFIXES[format] + toBase64(bytes);
+	return compressed.length < text.length ? compressed : text;
+}
+
+export async function decompressStream(text: string): Promise<string> {
+	const format = streamFormat(text);
+	if (!format) return text;
+
+	const bytes = fromBase64(text.slice(STREAM_PREFIXES[format].length));
+	const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream(format));
+	return new Response(stream).text();
+}
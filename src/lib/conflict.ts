@@ -0,0 +1,159 @@
+import { isEqual } from './equal.js';
+import { isPlainObject } from './paths.js';
+
+/** Written along with every value while conflict handling is enabled. */
+export interface WriteStamp {
+	/** Logical clock, higher than every write the writer had seen. */
+	clock: number;
+	/** Random id of the state instance that wrote the value. */
+	tab: string;
+	/** Epoch milliseconds of the change. */
+	time: number;
+}
+
+export interface ConflictMeta<T> {
+	/** Last value this state and storage agreed on, before the concurrent changes. */
+	base: T;
+	local: WriteStamp;
+	/** `null` for values written without a stamp, e.g. by an older release. */
+	remote: WriteStamp | null;
+}
+
+/**
+ * How a change from another tab is combined with a concurrent local change:
+ * - `remote`: the remote value replaces the local one (default)
+ * - `last-write-wins`: the value changed last wins, by time and then clock
+ * - `merge-fields`: properties of plain objects changed locally are kept, others are taken
+ *   from the remote value; properties changed on both sides go to the last change
+ * - `keep-local`: the local value is kept without being written; see `onRemoteChange`
+ * - a function returning the value to use, which is written when it is not the remote value
+ */
+export type ConflictStrategy<T> =
+	| 'remote'
+	| 'last-write-wins'
+	| 'merge-fields'
+	| 'keep-local'
+	| ((local: T, remote: T, meta: ConflictMeta<T>) => T);
+
+export interface RemoteChange<T> {
+	/** Value written by the other tab. */
+	remote: T;
+	/** Value of the state when the change arrived. */
+	local: T;
+	/** Value of the state after the change was handled. */
+	value: T;
+	stamp: WriteStamp | null;
+	/** Whether the change was concurrent with an unsaved or unseen local change. */
+	conflict: boolean;
+}
+
+export interface ConflictOptions<T> {
+	resolveConflict?: ConflictStrategy<T>;
+	/** Called for every change coming from another tab, e.g. to show "updated in another tab". */
+	onRemoteChange?: (change: RemoteChange<T>) => void;
+}
+
+export function createTabId() {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function isNewer(a: WriteStamp, b: WriteStamp | null) {
+	if (!b) return true;
+	if (a.time !== b.time) return a.time > b.time;
+	if (a.clock !== b.clock) return a.clock > b.clock;
+	return a.tab > b.tab;
+}
+
+function mergeFields<T>(base: T, local: T, remote: T, localWins: boolean): T {
+	if (!isPlainObject(base) || !isPlainObject(local) || !isPlainObject(remote)) {
+		return localWins ? local : remote;
+	}
+
+	const merged: Record<string, unknown> = { ...remote };
+	for (const key of new Set([...Object.keys(local), ...Object.keys(base)])) {
+		const changedLocally = !isEqual(local[key], base[key]);
+		const changedRemotely = !isEqual(remote[key], base[key]);
+		if (!changedLocally || (changedRemotely && !localWins)) continue;
+		if (key in local) {
+			merged[key] = local[key];
+		} else {
+			delete merged[key];
+		}
+	}
+	return merged as T;
+}
+
+/**
+ * Stamps writes with a logical clock and decides what to do with changes of other tabs.
+ * Without `resolveConflict` and `onRemoteChange`, nothing is stamped and remote values win.
+ */
+export function createConflictTracker<T>(initialValue: T, options: ConflictOptions<T>) {
+	const { resolveConflict = 'remote', onRemoteChange } = options;
+	const enabled = options.resolveConflict !== undefined || onRemoteChange !== undefined;
+	const tab = createTabId();
+
+	let clock = 0;
+	let base = initialValue;
+	let lastWrite: WriteStamp | null = null;
+	// Time of the first local change not written yet, 0 when there is none
+	let changedAt = 0;
+
+	function observe(stamp: WriteStamp | undefined) {
+		if (stamp) clock = Math.max(clock, stamp.clock);
+	}
+
+	return {
+		/** Records a local change that will be written later. */
+		change() {
+			if (enabled && !changedAt) changedAt = Date.now();
+		},
+		/** Stamp of a write; `undefined` while disabled, so values keep their format. */
+		stamp(): WriteStamp | undefined {
+			if (!enabled) return undefined;
+			clock++;
+			lastWrite = { clock, tab, time: changedAt || Date.now() };
+			changedAt = 0;
+			return lastWrite;
+		},
+		/** Remembers a value known to match storage. */
+		sync(value: T, stamp?: WriteStamp) {
+			base = value;
+			changedAt = 0;
+			observe(stamp);
+		},
+		/** Decides on the value to use for a change of another tab, and whether to write it. */
+		resolve(local: T, remote: T, stamp: WriteStamp | undefined): { value: T; write: boolean } {
+			if (!enabled) return { value: remote, write: false };
+
+			// The remote value is concurrent unless its writer had seen our last write
+			const conflict =
+				changedAt !== 0 ||
+				(lastWrite !== null && stamp !== undefined && stamp.clock <= lastWrite.clock);
+			const localStamp: WriteStamp = changedAt
+				? { clock: clock + 1, tab, time: changedAt }
+				: (lastWrite ?? { clock, tab, time: 0 });
+			observe(stamp);
+
+			let value = remote;
+			if (conflict) {
+				const meta: ConflictMeta<T> = { base, local: localStamp, remote: stamp ?? null };
+				if (typeof resolveConflict === 'function') {
+					value = resolveConflict(local, remote, meta);
+				} else if (resolveConflict === 'keep-local') {
+					value = local;
+				} else if (resolveConflict === 'last-write-wins') {
+					value = isNewer(localStamp, meta.remote) ? local : remote;
+				} else if (resolveConflict === 'merge-fields') {
+					value = mergeFields(base, local, remote, isNewer(localStamp, meta.remote));
+				}
+			}
+
+			if (value !== remote && isEqual(value, remote)) value = remote;
+			const write = value !== remote && resolveConflict !== 'keep-local';
+			// Storage holds the remote value unless the resolved one is written over it
+			base = write ? value : remote;
+			onRemoteChange?.({ remote, local, value, stamp: stamp ?? null, conflict });
+			return { value, write };
+		}
+	};
+}
@@ -0,0 +1,63 @@
+import { fromBase64, toBase64 } from './base64.js';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+export type EncryptionKey = CryptoKey | (() => CryptoKey | Promise<CryptoKey>);
+
+export interface EncryptionOptions {
+	/** AES-GCM key, or a function resolving it on first use. */
+	key: EncryptionKey;
+}
+
+export interface Cipher {
+	encrypt(plaintext: string): Promise<string>;
+	/** Values that were stored before encryption was enabled are returned as is. */
+	decrypt(payload: string): Promise<string>;
+}
+
+export function isEncrypted(value: unknown): value is string {
+	return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function createCipher({ key }: EncryptionOptions): Cipher {
+	let cryptoKey: Promise<CryptoKey> | undefined;
+
+	function getKey() {
+		cryptoKey ??= Promise.resolve()
+			.then(() => (typeof key === 'function' ? key() : key))
+			.catch((error) => {
+				// Let the next read or write ask the provider again
+				cryptoKey = undefined;
+				throw error;
+			});
+		return cryptoKey;
+	}
+
+	return {
+		async encrypt(plaintext) {
+			const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+			const ciphertext = await crypto.subtle.encrypt(
+				{ name: 'AES-GCM', iv },
+				await getKey(),
+				new TextEncoder().encode(plaintext)
+			);
+
+			const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+			payload.set(iv);
+			payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+			return ENCRYPTED_PREFIX + toBase64(payload);
+		},
+		async decrypt(payload) {
+			if (!isEncrypted(payload)) return payload;
+
+			const bytes = fromBase64(payload.slice(ENCRYPTED_PREFIX.length));
+			const plaintext = await crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) },
+				await getKey(),
+				bytes.subarray(IV_LENGTH)
+			);
+			return new TextDecoder().decode(plaintext);
+		}
+	};
+}
@@ -0,0 +1,61 @@
+import type { WriteStamp } from './conflict.js';
+
+const ENVELOPE_MARKER = '__sps';
+
+export interface EnvelopeMeta {
+	version?: number;
+	/** Epoch milliseconds after which the value counts as absent. */
+	expiresAt?: number;
+	/** Who wrote the value and when, for conflict resolution between tabs. */
+	stamp?: WriteStamp;
+}
+
+export interface Envelope<P = unknown> extends EnvelopeMeta {
+	[ENVELOPE_MARKER]: 1;
+	data: P;
+}
+
+export function isEnvelope(value: unknown): value is Envelope {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		(value as Record<string, unknown>)[ENVELOPE_MARKER] === 1
+	);
+}
+
+export function hasMeta(meta: EnvelopeMeta): boolean {
+	return Object.values(meta).some((value) => value !== undefined);
+}
+
+/**
+ * Wraps a payload together with its metadata. Payloads without metadata are
+ * returned untouched so existing stored values keep their original format.
+ */
+export function wrap<P>(data: P, meta: EnvelopeMeta): Envelope<P> | P {
+	if (!hasMeta(meta)) return data;
+	return { [ENVELOPE_MARKER]: 1, ...meta, data };
+}
+
+export function unwrap<P>(value: Envelope<P> | P): { data: P; meta: EnvelopeMeta } {
+	if (!isEnvelope(value)) return { data: value as P, meta: {} };
+	const { data, ...rest } = value as Envelope<P>;
+	const meta: Partial<Envelope<P>> = rest;
+	delete meta[ENVELOPE_MARKER];
+	return { data, meta };
+}
+
+/** String variant of `wrap` used by the string based storages. */
+export function encodeEnvelope(data: string, meta: EnvelopeMeta): string {
+	if (!hasMeta(meta)) return data;
+	return JSON.stringify(wrap(data, meta));
+}
+
+/** String variant of `unwrap`; anything that is not an envelope is treated as a bare payload. */
+export function decodeEnvelope(raw: string): { data: string; meta: EnvelopeMeta } {
+	if (!raw.startsWith(`{"${ENVELOPE_MARKER}":1`)) return { data: raw, meta: {} };
+	try {
+		return unwrap<string>(JSON.parse(raw));
+	} catch {
+		return { data: raw, meta: {} };
+	}
+}
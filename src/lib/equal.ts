@@ -0,0 +1,19 @@
+/** Deep equality of structured-clone values: plain objects, arrays, dates, maps and sets. */
+export function isEqual(a: unknown, b: unknown): boolean {
+	if (Object.is(a, b)) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+	if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+	if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+	if (a instanceof Map || a instanceof Set) {
+		const other = b as Map<unknown, unknown> | Set<unknown>;
+		return a.size === other.size && isEqual([...a], [...other]);
+	}
+
+	const keysA = Object.keys(a);
+	const keysB = Object.keys(b);
+	return (
+		keysA.length === keysB.length &&
+		keysA.every((key) => isEqual(a[key as keyof typeof a], b[key as keyof typeof b]))
+	);
+}
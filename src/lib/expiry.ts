@@ -0,0 +1,52 @@
+export interface ExpiryOptions {
+	/** Lifetime of the stored value in milliseconds, renewed by every write. */
+	ttl?: number;
+	/** Point in time after which the stored value is discarded. */
+	expiresAt?: Date | number;
+	/** Resets the state when the value expires while the page is open, instead of on the next load. */
+	watchExpiry?: boolean;
+}
+
+// Longer delays overflow and make setTimeout fire immediately
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+export function isExpired(expiresAt: number | undefined, now = Date.now()): boolean {
+	return expiresAt !== undefined && expiresAt <= now;
+}
+
+/** Expiry of a value written now; the earlier one wins when both `ttl` and `expiresAt` are set. */
+export function nextExpiry({ ttl, expiresAt }: ExpiryOptions): number | undefined {
+	const candidates: number[] = [];
+	if (ttl !== undefined) candidates.push(Date.now() + ttl);
+	if (expiresAt !== undefined) candidates.push(+expiresAt);
+	return candidates.length ? Math.min(...candidates) : undefined;
+}
+
+export interface ExpiryTimer {
+	/** Calls `onExpire` at `expiresAt`, replacing any previous schedule. */
+	schedule(expiresAt: number | undefined): void;
+	cancel(): void;
+}
+
+export function createExpiryTimer(onExpire: () => void): ExpiryTimer {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	function schedule(expiresAt: number | undefined) {
+		clearTimeout(timer);
+		timer = undefined;
+		if (expiresAt === undefined) return;
+
+		const wait = Math.max(expiresAt - Date.now(), 0);
+		timer = setTimeout(
+			() => (wait > MAX_TIMEOUT ? schedule(expiresAt) : onExpire()),
+			Math.min(wait, MAX_TIMEOUT)
+		);
+	}
+
+	return {
+		schedule,
+		cancel() {
+			schedule(undefined);
+		}
+	};
+}
@@ -0,0 +1,82 @@
+import { isEqual } from './equal.js';
+
+export interface HistoryOptions {
+	/** Number of undo steps kept (default: 100). */
+	depth?: number;
+	/** Also persists the undo and redo stacks, under the key followed by `:history`. */
+	persist?: boolean;
+}
+
+/** Values before and after the current one, oldest first. */
+export interface HistoryEntries<T> {
+	past: T[];
+	future: T[];
+}
+
+export interface History<T> {
+	readonly canUndo: boolean;
+	readonly canRedo: boolean;
+	/** Adds a value of the state as an entry, unless it is equal to the current entry. */
+	record(value: T): void;
+	/** Starts over from `value`, e.g. once the state is hydrated. */
+	reset(value: T, entries?: HistoryEntries<T>): void;
+	/** Steps back; returns the value to assign, `undefined` when there is nothing to undo. */
+	undo(): { value: T } | undefined;
+	redo(): { value: T } | undefined;
+	entries(): HistoryEntries<T>;
+}
+
+export function historyKey(key: string): string {
+	return `${key}:history`;
+}
+
+/**
+ * Undo and redo stacks of snapshots. The state records every value it takes, local or
+ * from another tab; values restored by `undo` and `redo` equal the current entry and so
+ * are not recorded again.
+ */
+export function createHistory<T>(initialValue: T, options: HistoryOptions): History<T> {
+	const { depth = 100 } = options;
+
+	// Entries are snapshots that are never changed, the stacks are only replaced
+	let past = $state.raw<T[]>([]);
+	let future = $state.raw<T[]>([]);
+	let present = initialValue;
+
+	return {
+		get canUndo() {
+			return past.length > 0;
+		},
+		get canRedo() {
+			return future.length > 0;
+		},
+		record(value) {
+			if (isEqual(value, present)) return;
+			past = [...past, present].slice(-depth);
+			future = [];
+			present = value;
+		},
+		reset(value, entries = { past: [], future: [] }) {
+			past = entries.past.slice(-depth);
+			future = entries.future.slice(0, depth);
+			present = value;
+		},
+		undo() {
+			if (!past.length) return undefined;
+			future = [present, ...future];
+			present = past[past.length - 1];
+			past = past.slice(0, -1);
+			return { value: present };
+		},
+		redo() {
+			if (!future.length) return undefined;
+			past = [...past, present];
+			present = future[0];
+			future = future.slice(1);
+			return { value: present };
+		},
+		entries() {
+			return { past, future };
+		}
+	};
+}
@@ -1,114 +1,235 @@
+import { untrack } from 'svelte';
+import type { IndexDefinition, IndexedDBOptions } from './indexeddb-storage.js';
+import { indexedDBAdapter, type AsyncStorageAdapter } from './async-storage-adapters.js';
 import {
-	getItem as idbGetItem,
-	setItem as idbSetItem,
-	closeDB,
-	type IndexedDBOptions
-} from './indexeddb-storage.js';
-
-type Serializer<T> = {
-	parse: (text: string) => T;
-	stringify: (object: T) => string;
-};
-
-type StorageType = 'local' | 'session' | 'cookie';
+	createAsyncCodec,
+	createCodec,
+	type AsyncCodecOptions,
+	type CodecOptions,
+	type Decoded,
+	type Serializer
+} from './codec.js';
+import {
+	createConflictTracker,
+	type ConflictMeta,
+	type ConflictOptions,
+	type ConflictStrategy,
+	type RemoteChange,
+	type WriteStamp
+} from './conflict.js';
+import {
+	createCipher,
+	isEncrypted,
+	type EncryptionKey,
+	type EncryptionOptions
+} from './encryption.js';
+import type { Migrations } from './migrations.js';
+import {
+	ValidationError,
+	type StandardSchemaV1,
+	type ValidationOptions,
+	type ValidationPolicy,
+	type Validator
+} from './validation.js';
+import {
+	cookieStorageAdapter,
+	getStorage,
+	localStorageAdapter,
+	sessionStorageAdapter,
+	sessionWindowsStorageAdapter,
+	type CookieOptions,
+	type StorageAdapter,
+	type StorageType
+} from './storage-adapters.js';
+import type { CompressionFormat, CompressionOptions } from './compression.js';
+import { createExpiryTimer, nextExpiry, type ExpiryOptions } from './expiry.js';
+import {
+	FALLBACK_MARKER,
+	getStorageUsage,
+	isQuotaExceededError,
+	withEviction,
+	type EvictionStrategy,
+	type QuotaOptions,
+	type StorageUsage
+} from './quota.js';
+import { createWriteScheduler, type WriteSchedulingOptions } from './write-scheduler.js';
+import { joinElection, type ForwardedChange, type LeaderElectionOptions } from './leader.js';
+import {
+	createHistory,
+	historyKey,
+	type HistoryEntries,
+	type HistoryOptions
+} from './history.svelte.js';
+import {
+	clearOperationLog,
+	createOperationLog,
+	type OperationLogOptions,
+	type PatchMessage
+} from './operation-log.js';
+import { applyPatch, type Operation } from './patch.js';
+import { isEqual } from './equal.js';
+import { workerAdapter, type PersistenceWorker, type WorkerStorageOptions } from './worker.js';
+import { readPersistedCookie, type ServerCookieOptions, type ServerCookies } from './server.js';
+import {
+	createPersistedStateScope,
+	type PersistedStateScope,
+	type PersistedStateScopeOptions
+} from './scope.svelte.js';
+import {
+	exportBackup,
+	importBackup,
+	type BackupOptions,
+	type BackupSource,
+	type PersistedBackup
+} from './backup.js';
+import type { Path } from './paths.js';
+import type { MergeStrategy } from './merge.js';
+import {
+	persistedCollection,
+	type CollectionOptions,
+	type PersistedCollection
+} from './collection.svelte.js';
+import {
+	countRecords,
+	getRecordsByIndex,
+	iterateRecords,
+	queryRecords,
+	type IndexedDBQuery,
+	type KeyRangeBounds
+} from './indexeddb-query.js';
+import { persistedQuery, type PersistedQuery, type PersistedQueryOptions } from './query.svelte.js';
 
-export type { IndexedDBOptions };
+export {
+	readPersistedCookie,
+	ValidationError,
+	localStorageAdapter,
+	sessionStorageAdapter,
+	sessionWindowsStorageAdapter,
+	cookieStorageAdapter,
+	indexedDBAdapter,
+	getStorageUsage,
+	createPersistedStateScope,
+	exportBackup,
+	importBackup,
+	persistedCollection,
+	persistedQuery,
+	queryRecords,
+	countRecords,
+	iterateRecords,
+	getRecordsByIndex,
+	workerAdapter
+};
+export type {
+	AsyncStorageAdapter,
+	BackupOptions,
+	BackupSource,
+	CodecOptions,
+	CollectionOptions,
+	CompressionFormat,
+	CompressionOptions,
+	ConflictMeta,
+	ConflictStrategy,
+	CookieOptions,
+	EncryptionKey,
+	EncryptionOptions,
+	EvictionStrategy,
+	ExpiryOptions,
+	HistoryOptions,
+	IndexDefinition,
+	IndexedDBOptions,
+	IndexedDBQuery,
+	KeyRangeBounds,
+	LeaderElectionOptions,
+	MergeStrategy,
+	Migrations,
+	Operation,
+	OperationLogOptions,
+	Path,
+	PersistedBackup,
+	PersistedCollection,
+	PersistedQuery,
+	PersistedQueryOptions,
+	PersistedStateScope,
+	PersistedStateScopeOptions,
+	PersistenceWorker,
+	QuotaOptions,
+	RemoteChange,
+	Serializer,
+	ServerCookieOptions,
+	ServerCookies,
+	StandardSchemaV1,
+	StorageAdapter,
+	StorageType,
+	StorageUsage,
+	ValidationOptions,
+	ValidationPolicy,
+	Validator,
+	WorkerStorageOptions,
+	WriteSchedulingOptions,
+	WriteStamp
+};
 
-interface CookieOptions {
-	expireDays?: number;
-	maxAge?: number;
-	path?: string;
-	domain?: string;
-	secure?: boolean;
-	sameSite?: 'Strict' | 'Lax' | 'None';
-	httpOnly?: boolean;
-}
+/** A storage key, or a function returning it; states re-hydrate when its result changes. */
+export type PersistedKey = string | (() => string);
 
-interface Options<T> {
-	storage?: StorageType;
-	serializer?: Serializer<T>;
+export interface PersistedStateOptions<T>
+	extends CodecOptions<T>,
+		WriteSchedulingOptions,
+		ExpiryOptions,
+		QuotaOptions,
+		ConflictOptions<T> {
+	storage?: StorageType | StorageAdapter;
 	syncTabs?: boolean;
 	/** @deprecated Use cookieOptions.expireDays instead */
 	cookieExpireDays?: number;
 	cookieOptions?: CookieOptions;
+	/** Broadcast sessionStorage changes to same-origin windows opened from this tab (requires `syncTabs`) */
+	syncSessionWindows?: boolean;
 	onWriteError?: (error: unknown) => void;
 	onParseError?: (error: unknown) => void;
-	beforeRead?: (value: T) => T;
-	beforeWrite?: (value: T) => T;
-}
-
-function getCookie(name: string): string | null {
-	const match = document.cookie.match(new RegExp('(^| )' + name + '=([^;]+)'));
-	return match ? decodeURIComponent(match[2]) : null;
-}
-
-function setCookie(name: string, value: string, options: CookieOptions = {}) {
-	const {
-		expireDays = 365,
-		maxAge,
-		path = '/',
-		domain,
-		secure = false,
-		sameSite = 'Lax',
-		httpOnly = false
-	} = options;
-
-	let cookieString = `${name}=${encodeURIComponent(value)}`;
-	cookieString += `; path=${path}`;
-
-	// Use max-age if specified, otherwise use expires
-	if (maxAge !== undefined) {
-		cookieString += `; max-age=${maxAge}`;
-	} else {
-		const expires = new Date(Date.now() + expireDays * 864e5).toUTCString();
-		cookieString += `; expires=${expires}`;
-	}
-
-	if (domain) {
-		cookieString += `; domain=${domain}`;
-	}
-
-	if (secure) {
-		cookieString += `; secure`;
-	}
-
-	cookieString += `; samesite=${sameSite}`;
-
-	if (httpOnly) {
-		cookieString += `; httponly`;
-	}
-
-	document.cookie = cookieString;
+	/**
+	 * Used instead of `initialValue` while nothing can be read from storage, e.g. during SSR.
+	 * Typically read from the request cookies with `readPersistedCookie`.
+	 */
+	serverValue?: T;
+	/** Encrypts stored values with AES-GCM; hydration then completes asynchronously (see `ready`). */
+	encryption?: EncryptionOptions;
+	/** Records the values of `current` for `undo()` and `redo()`; kept in memory with `encryption`. */
+	history?: boolean | HistoryOptions;
 }
 
-function getStorage(type: StorageType, cookieOptions: CookieOptions = {}) {
-	if (type === 'local')
-		return {
-			getItem: (k: string) => localStorage.getItem(k),
-			setItem: (k: string, v: string) => localStorage.setItem(k, v)
-		};
-	if (type === 'session')
-		return {
-			getItem: (k: string) => sessionStorage.getItem(k),
-			setItem: (k: string, v: string) => sessionStorage.setItem(k, v)
-		};
-	// cookie
-	return {
-		getItem: getCookie,
-		setItem: (k: string, v: string) => setCookie(k, v, cookieOptions)
-	};
-}
-
-export interface AsyncOptions<T> {
+export interface AsyncOptions<T>
+	extends AsyncCodecOptions<T>,
+		WriteSchedulingOptions,
+		ExpiryOptions,
+		Pick<QuotaOptions, 'onQuotaExceeded'>,
+		ConflictOptions<T> {
+	/** Defaults to IndexedDB configured by `indexedDB` */
+	storage?: AsyncStorageAdapter;
 	indexedDB?: IndexedDBOptions;
-	serializer?: Serializer<T>;
+	/**
+	 * Worker running `servePersistence`, which then compresses and writes the values to
+	 * the IndexedDB configured by `indexedDB`; ignored when `storage` is set.
+	 */
+	worker?: PersistenceWorker;
 	syncTabs?: boolean;
 	onWriteError?: (error: unknown) => void;
 	onParseError?: (error: unknown) => void;
 	onHydrated?: (value: T) => void;
 	onHydrationError?: (error: unknown) => void;
-	beforeRead?: (value: T) => T;
-	beforeWrite?: (value: T) => T;
+	/**
+	 * Lets one tab persist the value: the other tabs forward their changes to it, and
+	 * another tab takes over when it closes. `true` elects a leader per storage and key.
+	 */
+	leaderElection?: boolean | LeaderElectionOptions;
+	/** Records the values of `current` for `undo()` and `redo()`. */
+	history?: boolean | HistoryOptions;
+	/**
+	 * Writes changes as JSON Patch operations appended to a log, compacted into a snapshot
+	 * from time to time, and sends other tabs only the operations. Requires the default
+	 * IndexedDB storage, values are rewritten whole with `storage` or `worker`.
+	 */
+	operationLog?: boolean | OperationLogOptions;
 }
 
 export interface AsyncPersistedState<T> {
@@ -116,20 +237,48 @@ export interface AsyncPersistedState<T> {
 	set current(newValue: T);
 	readonly isLoading: boolean;
 	readonly ready: Promise<T>;
+	/** Epoch milliseconds at which the stored value expires, `null` without expiry. */
+	readonly expiresAt: number | null;
+	/** Milliseconds until the stored value expires, `null` without expiry. */
+	readonly expiresIn: number | null;
 	reset(): void;
+	/** Deletes the stored entry and resets the state without persisting the initial value. */
+	remove(): Promise<void>;
+	/**
+	 * Writes any pending debounced or throttled change immediately. With `leaderElection`,
+	 * a follower tab resolves once the leader tab has written the change.
+	 */
+	flush(): Promise<void>;
+	/** Whether this tab persists the value; always `true` without `leaderElection`. */
+	readonly isLeader: boolean;
+	/** Whether `undo()` has a value to go back to; always `false` without `history`. */
+	readonly canUndo: boolean;
+	readonly canRedo: boolean;
+	/** Goes back to the previous value of the history, which is persisted like any change. */
+	undo(): void;
+	redo(): void;
 }
 
-export function persistedState<T>(key: string, initialValue: T, options: Options<T> = {}) {
+export type PersistedState<T> = ReturnType<typeof persistedState<T>>;
+
+export function persistedState<T>(
+	key: PersistedKey,
+	initialValue: T,
+	options: PersistedStateOptions<T> = {}
+) {
 	const {
 		storage = 'local',
-		serializer = JSON,
 		syncTabs = true,
 		cookieExpireDays,
 		cookieOptions = {},
+		syncSessionWindows = false,
 		onWriteError = console.error,
 		onParseError = console.error,
-		beforeRead = (v: T) => v,
-		beforeWrite = (v: T) => v
+		serverValue,
+		encryption,
+		watchExpiry = false,
+		onQuotaExceeded = onWriteError,
+		fallbackStorage
 	} = options;
 
 	// Handle backward compatibility with cookieExpireDays
@@ -139,48 +288,375 @@ export function persistedState<T>(key: string, initialValue: T, options: Options
 	};
 
 	const browser = typeof window !== 'undefined' && typeof document !== 'undefined';
-	const storageArea = browser ? getStorage(storage, finalCookieOptions) : null;
+	const baseStorage = browser
+		? getStorage(storage, {
+				cookieOptions: finalCookieOptions,
+				syncSessionWindows: syncTabs && syncSessionWindows
+			})
+		: null;
+	const storageArea =
+		baseStorage && options.evict?.length ? withEviction(baseStorage, options) : baseStorage;
+
+	const codec = createCodec(initialValue, options);
+	const conflicts = createConflictTracker(initialValue, options);
+	const cipher = encryption ? createCipher(encryption) : null;
+
+	let currentKey = typeof key === 'function' ? key() : key;
+	let writeQueue: Promise<void> = Promise.resolve();
+	// Whether the value currently lives in `fallbackStorage`
+	let inFallback = false;
+
+	function handleWriteError(error: unknown) {
+		if (isQuotaExceededError(error)) {
+			onQuotaExceeded(error);
+		} else {
+			onWriteError(error);
+		}
+	}
 
-	let storedValue: T;
+	/**
+	 * Stores an encoded value, moving it to `fallbackStorage` when the storage is full.
+	 * Encrypted writes finish later, so the key is passed in rather than read when they land.
+	 */
+	function writeItem(target: string, payload: string): Promise<void> | undefined {
+		try {
+			storageArea?.setItem(target, payload);
+		} catch (error) {
+			if (!fallbackStorage || !isQuotaExceededError(error)) throw error;
+			inFallback = true;
+			// Replacing the outdated copy with the marker makes the next load and other tabs read the fallback
+			return fallbackStorage.setItem(target, payload).then(() => {
+				try {
+					storageArea?.setItem(target, FALLBACK_MARKER);
+				} catch {
+					storageArea?.removeItem(target);
+				}
+			});
+		}
+		if (inFallback) {
+			inFallback = false;
+			return fallbackStorage?.removeItem(target);
+		}
+	}
+
+	function removeItem(target = currentKey) {
+		const removeStored = () => {
+			try {
+				storageArea?.removeItem(target);
+			} catch (error) {
+				onWriteError(error);
+			}
+		};
+		if (!fallbackStorage) return removeStored();
+
+		// The marker goes last, so that it never points to a value already removed
+		inFallback = false;
+		writeQueue = writeQueue
+			.then(() => fallbackStorage.removeItem(target))
+			.catch(onWriteError)
+			.then(removeStored);
+	}
+
+	/**
+	 * Reads the entry of the current key. Entries that need async work (decryption, the
+	 * fallback storage) are returned as a promise of the raw item.
+	 */
+	function read(): Decoded<T> | Promise<unknown> | null {
+		const item = storageArea?.getItem(currentKey);
+		if (item === FALLBACK_MARKER && browser && fallbackStorage) {
+			// The value was moved to the fallback storage when this one was full
+			inFallback = true;
+			return fallbackStorage.getItem(currentKey);
+		}
+		if (item && cipher) return Promise.resolve(item);
+		if (!item) return null;
+
+		const decoded = codec.decode(item);
+		if (!decoded) removeItem();
+		return decoded;
+	}
+
+	let storedValue: T = serverValue ?? initialValue;
+	let storedExpiry: number | undefined;
+	let pendingItem: Promise<unknown> | null = null;
+	// Value read from storage, not written back: that would renew its expiry and notify other tabs
+	let hydrated: { value: T } | null = null;
 
 	try {
-		const item = storageArea?.getItem(key);
-		storedValue = item ? beforeRead(serializer.parse(item)) : initialValue;
+		const result = read();
+		if (result instanceof Promise) {
+			// Loaded once the state exists
+			pendingItem = result;
+		} else if (result) {
+			storedValue = result.value;
+			storedExpiry = result.expiresAt;
+			conflicts.sync(result.value, result.stamp);
+			hydrated = { value: result.value };
+		}
 	} catch (error) {
 		onParseError(error);
 		storedValue = initialValue;
 	}
 
 	let state = $state(storedValue);
+	let expiresAt = $state<number | null>(storedExpiry ?? null);
+	// Local changes are not written until the stored value is decrypted or read from the fallback,
+	// they are overwritten by that value or written once the fallback turns out to be empty
+	let hydrating = pendingItem !== null;
+	let isLoading = $state(hydrating);
+
+	const historyOptions = options.history === true ? {} : options.history || null;
+	const history = historyOptions ? createHistory(storedValue, historyOptions) : null;
+	// Entries are encoded like the value, which does not include encryption
+	const persistHistory = browser && !cipher && !!historyOptions?.persist;
+
+	function readHistory(): HistoryEntries<T> | undefined {
+		if (!persistHistory) return undefined;
+		try {
+			const item = storageArea?.getItem(historyKey(currentKey));
+			if (!item) return undefined;
+			const { past, future } = JSON.parse(item) as HistoryEntries<string>;
+			const decode = (entries: string[]) =>
+				entries.flatMap((entry) => codec.decode(entry) ?? []).map((decoded) => decoded.value);
+			return { past: decode(past), future: decode(future) };
+		} catch (error) {
+			onParseError(error);
+		}
+	}
+
+	function writeHistory(target: string) {
+		if (!persistHistory || !history) return;
+		const { past, future } = history.entries();
+		const encode = (entries: T[]) => entries.map((entry) => codec.encode(entry));
+		storageArea?.setItem(
+			historyKey(target),
+			JSON.stringify({ past: encode(past), future: encode(future) })
+		);
+	}
+
+	if (!pendingItem) history?.reset(storedValue, readHistory());
+
+	const expiryTimer = watchExpiry && browser ? createExpiryTimer(expire) : null;
+
+	function setExpiry(value: number | undefined) {
+		expiresAt = value ?? null;
+		expiryTimer?.schedule(value);
+	}
 
 	function updateStorage(value: T) {
 		try {
-			const valueToStore = beforeWrite(value);
-			storageArea?.setItem(key, serializer.stringify(valueToStore));
+			const target = currentKey;
+			const expiry = nextExpiry(options);
+			const encoded = codec.encode(value, expiry, conflicts.stamp());
+			if (!cipher) {
+				const pending = writeItem(target, encoded);
+				if (pending) writeQueue = writeQueue.then(() => pending).catch(handleWriteError);
+				setExpiry(expiry);
+				writeHistory(target);
+				return;
+			}
+			writeQueue = writeQueue
+				.then(() => cipher.encrypt(encoded))
+				.then((payload) => {
+					const pending = writeItem(target, payload);
+					if (target === currentKey) setExpiry(expiry);
+					return pending;
+				})
+				.catch(handleWriteError);
 		} catch (error) {
-			onWriteError(error);
+			handleWriteError(error);
 		}
 	}
 
-	if (syncTabs && typeof window !== 'undefined' && storage === 'local') {
-		window.addEventListener('storage', (event) => {
-			if (event.key === key && event.storageArea === localStorage) {
-				try {
-					const newValue = event.newValue ? serializer.parse(event.newValue) : initialValue;
-					state = beforeRead(newValue);
-				} catch (error) {
-					onParseError(error);
+	const scheduler = createWriteScheduler(options);
+	let skipNextWrite = false;
+
+	/** Assigns a value that already matches storage without writing it back. */
+	function setWithoutWrite(value: T) {
+		scheduler.cancel();
+		// Objects always get a new proxy, equal primitives do not trigger the effect at all
+		skipNextWrite = typeof value === 'object' && value !== null ? true : value !== state;
+		state = value;
+	}
+
+	function setDecoded(decoded: Decoded<T> | null) {
+		setExpiry(decoded?.expiresAt);
+		setWithoutWrite(decoded ? decoded.value : initialValue);
+		conflicts.sync(decoded ? decoded.value : initialValue, decoded?.stamp);
+	}
+
+	/** Applies a value written by another tab, resolving conflicts with local changes. */
+	function receive(decoded: Decoded<T> | null) {
+		// Removals always apply, resolving them could bring back a deleted entry
+		if (!decoded) return setDecoded(null);
+
+		const local = $state.snapshot(state) as T;
+		const { value, write } = conflicts.resolve(local, decoded.value, decoded.stamp);
+		if (value === decoded.value) return setDecoded(decoded);
+		if (!write) return;
+		setWithoutWrite(value);
+		scheduler.schedule(() => updateStorage(value));
+	}
+
+	/** Deletes the stored entry and resets the state without persisting the initial value. */
+	function clear() {
+		setExpiry(undefined);
+		setWithoutWrite(initialValue);
+		history?.reset(initialValue);
+		if (persistHistory) removeItem(historyKey(currentKey));
+		// Pending encrypted writes must not recreate the entry
+		if (cipher) {
+			const target = currentKey;
+			writeQueue = writeQueue.then(() => removeItem(target));
+		} else {
+			removeItem();
+		}
+	}
+
+	function expire() {
+		// A pending write renews the value, so only clear what is still expired once it landed
+		scheduler.flush();
+		writeQueue = writeQueue.then(() => {
+			if (expiresAt !== null && expiresAt <= Date.now()) clear();
+		});
+	}
+
+	function applyRemote(newValue: string | null) {
+		if (newValue === FALLBACK_MARKER && fallbackStorage) {
+			// The value moved to the fallback storage
+			fallbackStorage
+				.getItem(currentKey)
+				.then((item) => {
+					inFallback = typeof item === 'string';
+					if (typeof item === 'string') {
+						applyRemote(item);
+					} else {
+						setDecoded(null);
+					}
+				})
+				.catch(onParseError);
+		} else if (!newValue) {
+			setDecoded(null);
+		} else if (cipher) {
+			cipher
+				.decrypt(newValue)
+				.then((plaintext) => receive(codec.decode(plaintext)))
+				.catch(onParseError);
+		} else {
+			try {
+				receive(codec.decode(newValue));
+			} catch (error) {
+				onParseError(error);
+			}
+		}
+	}
+
+	const subscribe = () =>
+		syncTabs && storageArea?.subscribe ? storageArea.subscribe(currentKey, applyRemote) : undefined;
+	let unsubscribe = subscribe();
+	// Incremented on every load, so that a load finishing after the key changed is dropped
+	let loads = 0;
+
+	async function hydrate(pending: Promise<unknown>): Promise<T> {
+		const load = ++loads;
+		hydrating = true;
+		isLoading = true;
+		try {
+			const item = await pending;
+			const plaintext = typeof item === 'string' && cipher ? await cipher.decrypt(item) : item;
+			if (load !== loads) return state;
+
+			if (typeof item === 'string') {
+				const decoded = codec.decode(plaintext as string);
+				if (!decoded) {
+					setWithoutWrite(initialValue);
+					removeItem();
+				} else if (!cipher || isEncrypted(item)) {
+					setDecoded(decoded);
+				} else {
+					// Encrypt values stored before encryption was enabled
+					state = decoded.value;
 				}
+			} else {
+				// The marker outlived the fallback's value, so the current one replaces it
+				inFallback = false;
+				const snapshot = $state.snapshot(state) as T;
+				conflicts.change();
+				scheduler.schedule(() => updateStorage(snapshot));
 			}
-		});
+		} catch (error) {
+			onParseError(error);
+		}
+		if (load === loads) {
+			hydrating = false;
+			isLoading = false;
+			history?.reset($state.snapshot(state) as T, readHistory());
+		}
+		return state;
+	}
+
+	let ready = pendingItem ? hydrate(pendingItem) : Promise.resolve(storedValue);
+	expiryTimer?.schedule(storedExpiry);
+
+	/** Switches to another key, keeping its stored value or the initial value. */
+	function changeKey(next: string) {
+		// A pending change belongs to the previous key
+		scheduler.flush();
+		unsubscribe?.();
+		currentKey = next;
+		inFallback = false;
+		unsubscribe = subscribe();
+		loads++;
+		hydrating = false;
+		isLoading = false;
+
+		try {
+			const result = read();
+			if (result instanceof Promise) {
+				// Show the initial value rather than the previous key's value while loading
+				setDecoded(null);
+				ready = hydrate(result);
+				return;
+			}
+			setDecoded(result);
+		} catch (error) {
+			onParseError(error);
+			setDecoded(null);
+		}
+		history?.reset($state.snapshot(state) as T, readHistory());
+		ready = Promise.resolve(state);
 	}
 
 	$effect.root(() => {
 		$effect(() => {
-			updateStorage(state);
+			const snapshot = $state.snapshot(state) as T;
+			// Changes from other tabs are recorded too, as entries of their own
+			history?.record(snapshot);
+			const isHydrated = hydrated !== null && isEqual(snapshot, hydrated.value);
+			hydrated = null;
+			if (skipNextWrite) {
+				skipNextWrite = false;
+				return;
+			}
+			if (!hydrating && !isHydrated) {
+				conflicts.change();
+				scheduler.schedule(() => updateStorage(snapshot));
+			}
 		});
 
-		return () => { };
+		if (typeof key === 'function') {
+			$effect(() => {
+				const next = key();
+				if (next !== currentKey) untrack(() => changeKey(next));
+			});
+		}
+
+		return () => {
+			scheduler.flush();
+			scheduler.dispose();
+			expiryTimer?.cancel();
+			unsubscribe?.();
+		};
 	});
 
 	return {
@@ -202,128 +678,482 @@ export function persistedState<T>(key: string, initialValue: T, options: Options
 		set current(newValue: T) {
 			state = newValue;
 		},
+		/** True while an encrypted value is being decrypted or the fallback storage is read. */
+		get isLoading() {
+			return isLoading;
+		},
+		/** Resolves once the state is hydrated, right away unless encrypted or in the fallback. */
+		get ready() {
+			return ready;
+		},
+		/** Epoch milliseconds at which the stored value expires, `null` without expiry. */
+		get expiresAt() {
+			return expiresAt;
+		},
+		/** Milliseconds until the stored value expires, `null` without expiry. */
+		get expiresIn() {
+			return expiresAt === null ? null : Math.max(expiresAt - Date.now(), 0);
+		},
 		reset() {
 			state = initialValue;
+		},
+		/** Deletes the stored entry and resets the state without persisting the initial value. */
+		remove: clear,
+		/** Writes any pending debounced or throttled change immediately. */
+		flush() {
+			scheduler.flush();
+		},
+		/** Whether `undo()` has a value to go back to; always `false` without `history`. */
+		get canUndo() {
+			return history?.canUndo ?? false;
+		},
+		get canRedo() {
+			return history?.canRedo ?? false;
+		},
+		/** Goes back to the previous value of the history, which is persisted like any change. */
+		undo() {
+			const entry = history?.undo();
+			if (entry) state = entry.value;
+		},
+		redo() {
+			const entry = history?.redo();
+			if (entry) state = entry.value;
 		}
 	};
 }
 
 export function persistedStateAsync<T>(
-	key: string,
+	key: PersistedKey,
 	initialValue: T,
 	options: AsyncOptions<T> = {}
 ): AsyncPersistedState<T> {
 	const {
 		indexedDB: indexedDBOptions = {},
-		serializer,
+		worker,
+		encryption,
+		// Compression of encrypted values stays on the main thread, it has to happen first
+		storage = worker
+			? workerAdapter(worker, {
+					indexedDB: indexedDBOptions,
+					compression: encryption ? undefined : options.compression
+				})
+			: indexedDBAdapter(indexedDBOptions),
 		syncTabs = true,
 		onWriteError = console.error,
 		onParseError = console.error,
 		onHydrated,
 		onHydrationError = console.error,
-		beforeRead = (v: T) => v,
-		beforeWrite = (v: T) => v
+		watchExpiry = false,
+		onQuotaExceeded = onWriteError,
+		leaderElection = false
 	} = options;
 
-	const browser = typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+	const browser =
+		typeof window !== 'undefined' &&
+		(options.storage !== undefined || worker !== undefined || typeof indexedDB !== 'undefined');
 
+	let currentKey = typeof key === 'function' ? key() : key;
 	let state = $state<T>(initialValue);
 	let isLoading = $state(browser);
-	let resolveReady: (value: T) => void;
-	let rejectReady: (error: unknown) => void;
-
-	const ready = new Promise<T>((resolve, reject) => {
-		resolveReady = resolve;
-		rejectReady = reject;
-	});
+	let expiresAt = $state<number | null>(null);
+	// Incremented on every load, so that a load finishing after the key changed is dropped
+	let loads = 0;
 
 	let broadcastChannel: BroadcastChannel | null = null;
 	let skipNextWrite = false;
+	// Value just read from storage, not written back: that would renew its expiry and notify other tabs
+	let hydrated: { value: T } | null = null;
+	let lastWrite: Promise<void> = Promise.resolve();
+	// Change sent to the leader tab, until the leader confirms its write
+	let forwarded: ForwardedChange | null = null;
+	// Settles the part of `lastWrite` waiting for the leader to write the forwarded change
+	let confirmForwarded: (() => void) | null = null;
+	const scheduler = createWriteScheduler(options);
 
-	async function hydrate() {
+	const offloaded = worker !== undefined && options.storage === undefined && !encryption;
+	const codec = createAsyncCodec(
+		initialValue,
+		offloaded ? { ...options, compression: undefined } : options
+	);
+	const conflicts = createConflictTracker(initialValue, options);
+	const expiryTimer = watchExpiry && browser ? createExpiryTimer(expire) : null;
+
+	const historyOptions = options.history === true ? {} : options.history || null;
+	const history = historyOptions ? createHistory(initialValue, historyOptions) : null;
+	const persistHistory = browser && !!historyOptions?.persist;
+
+	const logOptions = options.operationLog === true ? {} : options.operationLog || null;
+	const log =
+		logOptions && browser && options.storage === undefined && worker === undefined
+			? createOperationLog(initialValue, codec, indexedDBOptions, {
+					...logOptions,
+					version: options.version,
+					encryption,
+					compression: options.compression
+				})
+			: null;
+
+	async function readHistory(target: string): Promise<HistoryEntries<T> | undefined> {
+		if (!persistHistory) return undefined;
+		try {
+			const stored = (await storage.getItem(historyKey(target))) as HistoryEntries<unknown> | null;
+			if (!stored) return undefined;
+			const decode = async (entries: unknown[]) =>
+				(await Promise.all(entries.map((entry) => codec.decode(entry))))
+					.flatMap((decoded) => decoded ?? [])
+					.map((decoded) => decoded.value);
+			return { past: await decode(stored.past), future: await decode(stored.future) };
+		} catch (error) {
+			onParseError(error);
+		}
+	}
+
+	async function writeHistory(target: string) {
+		if (!persistHistory || !history) return;
+		const { past, future } = history.entries();
+		const encode = (entries: T[]) => Promise.all(entries.map((entry) => codec.encode(entry)));
+		await storage.setItem(historyKey(target), {
+			past: await encode(past),
+			future: await encode(future)
+		});
+	}
+
+	function setExpiry(value: number | undefined) {
+		expiresAt = value ?? null;
+		expiryTimer?.schedule(value);
+	}
+
+	async function removeItem(target = currentKey) {
+		try {
+			await storage.removeItem(target);
+			await log?.clear(target);
+			broadcastChannel?.postMessage({ key: target, value: null });
+		} catch (error) {
+			onWriteError(error);
+		}
+	}
+
+	async function hydrate(): Promise<T> {
+		const load = ++loads;
 		if (!browser) {
 			isLoading = false;
-			resolveReady(initialValue);
-			return;
+			return initialValue;
 		}
 
+		isLoading = true;
+		const target = currentKey;
 		try {
-			const storedValue = await idbGetItem<T>(key, indexedDBOptions);
-			if (storedValue !== null) {
+			const storedValue = await storage.getItem(target);
+			const entries = await readHistory(target);
+			const isStored = storedValue !== null && storedValue !== undefined;
+			let decoded: Decoded<T> | null = null;
+			let parseFailed = false;
+			if (isStored || log) {
 				try {
-					const value = serializer ? serializer.parse(storedValue as string) : storedValue;
-					state = beforeRead(value);
+					// Changes logged since the snapshot was written are applied before decoding
+					decoded = log ? await log.read(target, storedValue) : await codec.decode(storedValue);
+					if (!decoded && isStored) await removeItem(target);
 				} catch (error) {
 					onParseError(error);
-					state = initialValue;
+					parseFailed = true;
 				}
 			}
+			if (load !== loads) return state;
+
+			if (decoded) {
+				state = decoded.value;
+				setExpiry(decoded.expiresAt);
+				conflicts.sync(decoded.value, decoded.stamp);
+				hydrated = { value: decoded.value };
+			} else if (parseFailed) {
+				state = initialValue;
+			}
+			history?.reset($state.snapshot(state) as T, entries);
 			isLoading = false;
 			onHydrated?.(state);
-			resolveReady(state);
+			return state;
 		} catch (error) {
 			onHydrationError(error);
-			isLoading = false;
-			rejectReady(error);
+			if (load === loads) isLoading = false;
+			throw error;
 		}
 	}
 
+	/** Assigns a value that already matches storage without writing it back. */
+	function setWithoutWrite(value: T) {
+		scheduler.cancel();
+		// Objects always get a new proxy, equal primitives do not trigger the effect at all
+		skipNextWrite = typeof value === 'object' && value !== null ? true : value !== state;
+		state = value;
+	}
+
+	/** Called once the forwarded change is persisted, by the leader tab or this one. */
+	function confirm() {
+		forwarded = null;
+		confirmForwarded?.();
+		confirmForwarded = null;
+	}
+
+	/** Waits for all writes, including those chained meanwhile, e.g. a change the leader handed back. */
+	async function writesDone() {
+		let pending: Promise<void>;
+		do {
+			pending = lastWrite;
+			await pending;
+		} while (pending !== lastWrite);
+	}
+
+	async function applyRemote(stored: unknown) {
+		try {
+			const decoded = stored === null ? null : await codec.decode(stored);
+			// Removals always apply, resolving them could bring back a deleted entry
+			if (decoded) {
+				const local = $state.snapshot(state) as T;
+				const resolved = conflicts.resolve(local, decoded.value, decoded.stamp);
+				if (resolved.value !== decoded.value) {
+					if (resolved.write) {
+						setWithoutWrite(resolved.value);
+						scheduler.schedule(() => write(resolved.value));
+					}
+					return;
+				}
+			}
+			setExpiry(decoded?.expiresAt);
+			setWithoutWrite(decoded ? decoded.value : initialValue);
+			conflicts.sync(decoded ? decoded.value : initialValue, decoded?.stamp);
+			log?.sync(decoded ? decoded.value : initialValue, decoded !== null);
+		} catch (error) {
+			onParseError(error);
+		}
+	}
+
+	/** Applies the operations of a change made by another tab. */
+	async function applyPatchMessage(message: PatchMessage) {
+		const local = $state.snapshot(state) as T;
+		if (!log) {
+			setExpiry(message.expiresAt);
+			return setWithoutWrite(applyPatch(local, message.patch));
+		}
+		try {
+			const received = await log.receive(message, local);
+			if (!received) return;
+			setExpiry(message.expiresAt);
+			// Local changes not stored yet are written, diffing leaves out the received operations
+			if (received.pending) {
+				state = received.value;
+			} else {
+				setWithoutWrite(received.value);
+			}
+		} catch (error) {
+			onParseError(error);
+		}
+	}
+
+	/**
+	 * Deletes the stored entry and resets the state without persisting the initial value.
+	 * `local` removes it from this tab even when it follows a leader.
+	 */
+	async function clear(local = false) {
+		const target = currentKey;
+		setExpiry(undefined);
+		setWithoutWrite(initialValue);
+		history?.reset(initialValue);
+		if (!local && forward(target, { remove: true })) return writesDone();
+		await lastWrite;
+		await removeItem(target);
+		if (persistHistory) await storage.removeItem(historyKey(target)).catch(onWriteError);
+	}
+
+	function expire() {
+		// A pending write renews the value, so only clear what is still expired once it landed
+		scheduler.flush();
+		lastWrite.then(() => {
+			if (expiresAt !== null && expiresAt <= Date.now()) return clear();
+		});
+	}
+
+	let unsubscribe: (() => void) | undefined;
+
 	if (browser && syncTabs) {
-		const channelName = `svelte-persisted-state:${indexedDBOptions.dbName ?? 'svelte-persisted-state'}`;
-		broadcastChannel = new BroadcastChannel(channelName);
+		broadcastChannel = new BroadcastChannel(`svelte-persisted-state:${storage.name}`);
 
 		broadcastChannel.onmessage = (event) => {
-			if (event.data.key === key) {
-				try {
-					skipNextWrite = true;
-					const value = serializer ? serializer.parse(event.data.value) : event.data.value;
-					state = beforeRead(value);
-				} catch (error) {
-					skipNextWrite = false;
-					onParseError(error);
-				}
+			if (event.data.key !== currentKey) return;
+			if ('patch' in event.data) {
+				applyPatchMessage(event.data);
+			} else {
+				applyRemote(event.data.value);
 			}
 		};
+
+		unsubscribe = storage.subscribe?.(currentKey, applyRemote);
 	}
 
-	hydrate();
+	/**
+	 * Hands a change to the leader tab; `false` when this tab has to persist it.
+	 * `flush()` then waits until the leader confirms its write.
+	 */
+	function forward(target: string, change: ForwardedChange) {
+		forwarded = election?.forward(target, change) ? change : null;
+		if (!forwarded) return false;
+		if (!confirmForwarded) {
+			const written = new Promise<void>((resolve) => (confirmForwarded = resolve));
+			lastWrite = Promise.all([lastWrite, written]).then(() => undefined);
+		}
+		return true;
+	}
+
+	/**
+	 * Persists a value, or forwards it to the leader tab unless `local`.
+	 * Rejects when the write failed, which is reported to `onWriteError` either way.
+	 */
+	function write(snapshot: T, local = false): Promise<void> {
+		const target = currentKey;
+		if (!local && forward(target, { value: snapshot })) return lastWrite;
+		const stamp = conflicts.stamp();
+		// Writes are chained so that encrypting one value cannot overtake the previous write
+		const written = lastWrite.then(async () => {
+			const expiry = nextExpiry(options);
+			if (log) return writeOperations(target, snapshot, expiry, stamp);
+			const valueToStore = await codec.encode(snapshot, expiry, stamp);
+			// Changes logged by states with `operationLog` would be replayed on the new value
+			if (options.storage === undefined) await clearOperationLog(target, indexedDBOptions);
+			await storage.setItem(target, valueToStore);
+			if (target === currentKey) setExpiry(expiry);
+			await writeHistory(target);
+			if (syncTabs && broadcastChannel) {
+				broadcastChannel.postMessage({ key: target, value: valueToStore });
+			}
+		});
+		lastWrite = written.catch((error) => {
+			if (isQuotaExceededError(error)) {
+				onQuotaExceeded(error);
+			} else {
+				onWriteError(error);
+			}
+		});
+		return written;
+	}
+
+	async function writeOperations(
+		target: string,
+		snapshot: T,
+		expiry: number | undefined,
+		stamp: WriteStamp | undefined
+	) {
+		// Diffed against the latest value, which includes the operations received meanwhile
+		const value = target === currentKey ? ($state.snapshot(state) as T) : snapshot;
+		const message = await log!.write(target, value, expiry, (compacted) =>
+			codec.encode(compacted, expiry, stamp)
+		);
+		if (!message) return;
+		if (target === currentKey) setExpiry(expiry);
+		await writeHistory(target);
+		if (syncTabs && broadcastChannel) broadcastChannel.postMessage(message);
+	}
+
+	let ready = hydrate();
+
+	let isLeader = $state(true);
+	const election =
+		browser && leaderElection
+			? joinElection(
+					(leaderElection !== true && leaderElection.name) || `${storage.name}:${currentKey}`,
+					leaderElection === true ? {} : leaderElection,
+					{
+						key: () => currentKey,
+						async receive(change) {
+							await ready.catch(() => undefined);
+							if ('remove' in change) return clear();
+							// Written right away, the leader confirms once it is stored
+							setWithoutWrite(change.value as T);
+							conflicts.change();
+							return write(change.value as T);
+						},
+						leaderChanged(leads) {
+							isLeader = leads;
+							// The previous leader may have closed before persisting the change
+							const change = forwarded;
+							if (!change) return;
+							// Forwarded again or written by this tab, which `flush()` then waits for
+							confirm();
+							if ('remove' in change) {
+								clear();
+							} else {
+								write(change.value as T);
+							}
+						},
+						settled(persisted) {
+							const change = forwarded;
+							confirm();
+							if (persisted || !change) return;
+							// The leader tab did not store it, so this tab does
+							if ('remove' in change) {
+								clear(true);
+							} else {
+								write(change.value as T, true);
+							}
+						}
+					}
+				)
+			: null;
+	if (election) isLeader = election.isLeader;
+
+	/** Switches to another key and hydrates from it, starting over from the initial value. */
+	function changeKey(next: string) {
+		// A pending change belongs to the previous key
+		scheduler.flush();
+		unsubscribe?.();
+		currentKey = next;
+		if (browser && syncTabs) unsubscribe = storage.subscribe?.(currentKey, applyRemote);
+
+		setExpiry(undefined);
+		setWithoutWrite(initialValue);
+		ready = hydrate();
+		ready.catch(() => {
+			// Reported through onHydrationError
+		});
+	}
 
 	$effect.root(() => {
 		let isFirstRun = true;
 
 		$effect(() => {
 			const snapshot = $state.snapshot(state) as T;
-			let valueToStore: T | string;
-			try {
-				const transformed = beforeWrite(snapshot);
-				valueToStore = serializer ? serializer.stringify(transformed) : transformed;
-			} catch (error) {
-				onWriteError(error);
-				return;
-			}
 
 			if (isFirstRun) {
 				isFirstRun = false;
 				return;
 			}
-			if (!isLoading && !skipNextWrite) {
-				idbSetItem(key, valueToStore, indexedDBOptions)
-					.then(() => {
-						if (syncTabs && broadcastChannel) {
-							broadcastChannel.postMessage({ key, value: valueToStore });
-						}
-					})
-					.catch(onWriteError);
+			// Changes from other tabs are recorded too, as entries of their own
+			if (!isLoading) history?.record(snapshot);
+			const isHydrated = hydrated !== null && isEqual(snapshot, hydrated.value);
+			if (!isLoading) hydrated = null;
+			if (!isLoading && !skipNextWrite && !isHydrated) {
+				conflicts.change();
+				scheduler.schedule(() => write(snapshot));
 			}
 			if (skipNextWrite) {
 				skipNextWrite = false;
 			}
 		});
 
+		if (typeof key === 'function') {
+			$effect(() => {
+				const next = key();
+				if (next !== currentKey) untrack(() => changeKey(next));
+			});
+		}
+
 		return () => {
+			scheduler.flush();
+			scheduler.dispose();
+			expiryTimer?.cancel();
+			election?.leave();
 			broadcastChannel?.close();
+			unsubscribe?.();
 			if (browser) {
-				closeDB(indexedDBOptions);
+				storage.close?.();
 			}
 		};
 	});
@@ -341,8 +1171,38 @@ export function persistedStateAsync<T>(
 		get ready() {
 			return ready;
 		},
+		get expiresAt() {
+			return expiresAt;
+		},
+		get expiresIn() {
+			return expiresAt === null ? null : Math.max(expiresAt - Date.now(), 0);
+		},
 		reset() {
 			state = initialValue;
+		},
+		remove() {
+			return clear();
+		},
+		flush() {
+			scheduler.flush();
+			return writesDone();
+		},
+		get isLeader() {
+			return isLeader;
+		},
+		get canUndo() {
+			return history?.canUndo ?? false;
+		},
+		get canRedo() {
+			return history?.canRedo ?? false;
+		},
+		undo() {
+			const entry = history?.undo();
+			if (entry) state = entry.value;
+		},
+		redo() {
+			const entry = history?.redo();
+			if (entry) state = entry.value;
 		}
 	};
 }
@@ -0,0 +1,130 @@
+import { openStore, type IndexedDBOptions } from './indexeddb-storage.js';
+
+/** Bounds of a key range; `gt` / `lt` exclude the bound, `gte` / `lte` include it. */
+export interface KeyRangeBounds {
+	gt?: IDBValidKey;
+	gte?: IDBValidKey;
+	lt?: IDBValidKey;
+	lte?: IDBValidKey;
+}
+
+export interface IndexedDBQuery {
+	/** Index to read from; records are read by primary key without one. */
+	index?: string;
+	/** A single key, an `IDBKeyRange` or bounds such as `{ gte: since }`. */
+	range?: IDBValidKey | IDBKeyRange | KeyRangeBounds;
+	/** 'prev' reads from the highest key down, e.g. newest first (default: 'next'). */
+	direction?: IDBCursorDirection;
+	/** Number of matching records to skip. */
+	offset?: number;
+	limit?: number;
+}
+
+function isBounds(range: unknown): range is KeyRangeBounds {
+	return (
+		typeof range === 'object' &&
+		range !== null &&
+		!(range instanceof IDBKeyRange) &&
+		!(range instanceof Date) &&
+		!Array.isArray(range) &&
+		!ArrayBuffer.isView(range) &&
+		!(range instanceof ArrayBuffer)
+	);
+}
+
+export function toKeyRange(range: IndexedDBQuery['range']): IDBKeyRange | undefined {
+	if (range === undefined || range instanceof IDBKeyRange) return range;
+	if (!isBounds(range)) return IDBKeyRange.only(range);
+
+	const lower = range.gt ?? range.gte;
+	const upper = range.lt ?? range.lte;
+	const lowerOpen = range.gt !== undefined;
+	const upperOpen = range.lt !== undefined;
+	if (lower !== undefined && upper !== undefined) {
+		return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+	}
+	if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+	if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+	return undefined;
+}
+
+async function openSource(options: IndexedDBOptions, index: string | undefined) {
+	const store = await openStore(options, 'readonly');
+	return index === undefined ? store : store.index(index);
+}
+
+/**
+ * Visits the records matching `query` in order until `callback` returns `false`.
+ * The callback runs inside the transaction, so it must not wait for other work.
+ */
+export async function iterateRecords<T>(
+	options: IndexedDBOptions,
+	query: IndexedDBQuery,
+	callback: (value: T, primaryKey: IDBValidKey) => boolean | void
+): Promise<void> {
+	const { index, range, direction = 'next', offset = 0, limit = Infinity } = query;
+	const source = await openSource(options, index);
+
+	return new Promise((resolve, reject) => {
+		const request = source.openCursor(toKeyRange(range), direction);
+		let skipped = offset === 0;
+		let visited = 0;
+
+		request.onerror = () => {
+			reject(request.error);
+		};
+
+		request.onsuccess = () => {
+			const cursor = request.result;
+			if (!cursor || visited >= limit) return resolve();
+			if (!skipped) {
+				skipped = true;
+				return cursor.advance(offset);
+			}
+			visited++;
+			if (callback(cursor.value, cursor.primaryKey) === false) return resolve();
+			cursor.continue();
+		};
+	});
+}
+
+/** Values of the records matching `query`, in index (or key) order. */
+export async function queryRecords<T>(
+	options: IndexedDBOptions,
+	query: IndexedDBQuery = {}
+): Promise<T[]> {
+	const values: T[] = [];
+	await iterateRecords<T>(options, query, (value) => {
+		values.push(value);
+	});
+	return values;
+}
+
+/** Values whose `index` matches `key`, e.g. every note with a given tag. */
+export function getRecordsByIndex<T>(
+	options: IndexedDBOptions,
+	index: string,
+	key: IDBValidKey
+): Promise<T[]> {
+	return queryRecords<T>(options, { index, range: key });
+}
+
+/** Number of records matching `index` and `range`, without reading them. */
+export async function countRecords(
+	options: IndexedDBOptions,
+	query: Pick<IndexedDBQuery, 'index' | 'range'> = {}
+): Promise<number> {
+	const source = await openSource(options, query.index);
+
+	return new Promise((resolve, reject) => {
+		const request = source.count(toKeyRange(query.range));
+
+		request.onerror = () => {
+			reject(request.error);
+		};
+
+		request.onsuccess = () => {
+			resolve(request.result);
+		};
+	});
+}
@@ -1,11 +1,37 @@
 const DEFAULT_DB_NAME = 'svelte-persisted-state';
 const DEFAULT_STORE_NAME = 'state';
-const DEFAULT_VERSION = 1;
+
+export interface IndexDefinition {
+	name: string;
+	/** Property (or dot path, or list of them) of the stored values to index. */
+	keyPath: string | string[];
+	unique?: boolean;
+	/** Index every element of an array property separately. */
+	multiEntry?: boolean;
+}
 
 export interface IndexedDBOptions {
 	dbName?: string;
 	storeName?: string;
+	/**
+	 * Minimum version of the database. Versions are raised automatically when a store
+	 * or index is missing, so this is only needed to run `upgrade` for other changes.
+	 */
 	version?: number;
+	/** Read the key of each record from this property instead of passing it separately. */
+	keyPath?: string | string[];
+	autoIncrement?: boolean;
+	/** Indexes of the store, created when missing. */
+	indexes?: IndexDefinition[];
+	/** Called during an upgrade after the store and its indexes are created, e.g. to migrate records. */
+	upgrade?: (
+		db: IDBDatabase,
+		transaction: IDBTransaction,
+		oldVersion: number,
+		newVersion: number
+	) => void;
+	/** Called when an upgrade waits for connections of other tabs that do not close. */
+	onBlocked?: (event: IDBVersionChangeEvent) => void;
 }
 
 interface DBConnection {
@@ -13,23 +39,45 @@ interface DBConnection {
 	storeName: string;
 }
 
-let connectionCache: Map<string, DBConnection> = new Map();
+// Latest open of each database; opens are chained so that upgrades never overlap
+let databases = new Map<string, Promise<IDBDatabase>>();
+// Current connection of each database, shared by all of its stores
+let connections = new Map<string, IDBDatabase>();
+// Connections closed by closeDB or for an upgrade, reopened on next use
+const closed = new WeakSet<IDBDatabase>();
 
-function getCacheKey(options: Required<IndexedDBOptions>): string {
-	return `${options.dbName}:${options.storeName}:${options.version}`;
+function close(dbName: string, db: IDBDatabase) {
+	db.close();
+	closed.add(db);
+	if (connections.get(dbName) === db) connections.delete(dbName);
 }
 
-export function openDB(options: IndexedDBOptions = {}): Promise<DBConnection> {
-	const dbName = options.dbName ?? DEFAULT_DB_NAME;
-	const storeName = options.storeName ?? DEFAULT_STORE_NAME;
-	const version = options.version ?? DEFAULT_VERSION;
-
-	const cacheKey = getCacheKey({ dbName, storeName, version });
-	const cached = connectionCache.get(cacheKey);
-	if (cached) {
-		return Promise.resolve(cached);
+function createStore(
+	db: IDBDatabase,
+	transaction: IDBTransaction,
+	storeName: string,
+	options: IndexedDBOptions
+) {
+	const store = db.objectStoreNames.contains(storeName)
+		? transaction.objectStore(storeName)
+		: db.createObjectStore(storeName, {
+				keyPath: options.keyPath,
+				autoIncrement: options.autoIncrement
+			});
+	for (const { name, keyPath, unique, multiEntry } of options.indexes ?? []) {
+		if (!store.indexNames.contains(name)) {
+			store.createIndex(name, keyPath, { unique, multiEntry });
+		}
 	}
+}
 
+/** Opens the current version of a database, or upgrades it to `version`. */
+function requestDB(
+	dbName: string,
+	storeName: string,
+	version: number | undefined,
+	options: IndexedDBOptions
+): Promise<IDBDatabase> {
 	return new Promise((resolve, reject) => {
 		const request = indexedDB.open(dbName, version);
 
@@ -37,27 +85,76 @@ export function openDB(options: IndexedDBOptions = {}): Promise<DBConnection> {
 			reject(request.error);
 		};
 
+		request.onblocked = (event) => {
+			options.onBlocked?.(event);
+		};
+
 		request.onsuccess = () => {
-			const connection: DBConnection = { db: request.result, storeName };
-			connectionCache.set(cacheKey, connection);
-			resolve(connection);
+			const db = request.result;
+			// Another tab wants to upgrade, which waits until every connection is closed
+			db.onversionchange = () => close(dbName, db);
+			connections.set(dbName, db);
+			resolve(db);
 		};
 
-		request.onupgradeneeded = () => {
+		request.onupgradeneeded = (event) => {
 			const db = request.result;
-			if (!db.objectStoreNames.contains(storeName)) {
-				db.createObjectStore(storeName);
-			}
+			const transaction = request.transaction!;
+			createStore(db, transaction, storeName, options);
+			options.upgrade?.(db, transaction, event.oldVersion, db.version);
 		};
 	});
 }
 
-export async function getItem<T>(key: string, options: IndexedDBOptions = {}): Promise<T | null> {
+function isMissing(db: IDBDatabase, storeName: string, options: IndexedDBOptions): boolean {
+	if (!db.objectStoreNames.contains(storeName)) return true;
+	if (!options.indexes?.length) return false;
+
+	const { indexNames } = db.transaction(storeName, 'readonly').objectStore(storeName);
+	return options.indexes.some(({ name }) => !indexNames.contains(name));
+}
+
+export function openDB(options: IndexedDBOptions = {}): Promise<DBConnection> {
+	const dbName = options.dbName ?? DEFAULT_DB_NAME;
+	const storeName = options.storeName ?? DEFAULT_STORE_NAME;
+
+	const opened = (databases.get(dbName) ?? Promise.resolve(null))
+		.catch(() => null)
+		.then(async (cached) => {
+			let db =
+				cached && !closed.has(cached)
+					? cached
+					: await requestDB(dbName, storeName, undefined, options);
+
+			const minVersion = options.version ?? 0;
+			if (db.version < minVersion || isMissing(db, storeName, options)) {
+				// Stores and indexes can only be created while upgrading to a higher version
+				close(dbName, db);
+				db = await requestDB(dbName, storeName, Math.max(db.version + 1, minVersion), options);
+			}
+			return db;
+		});
+	databases.set(dbName, opened);
+
+	return opened.then((db) => ({ db, storeName }));
+}
+
+/** Starts a transaction on the store, reopening the database when it was closed meanwhile. */
+export async function openStore(
+	options: IndexedDBOptions,
+	mode: IDBTransactionMode
+): Promise<IDBObjectStore> {
 	const { db, storeName } = await openDB(options);
+	if (!closed.has(db)) return db.transaction(storeName, mode).objectStore(storeName);
+
+	const reopened = await openDB(options);
+	return reopened.db.transaction(storeName, mode).objectStore(storeName);
+}
+
+export async function getItem<T>(key: string, options: IndexedDBOptions = {}): Promise<T | null> {
+	const store = await openStore(options, 'readonly');
 
 	return new Promise((resolve, reject) => {
-		const transaction = db.transaction(storeName, 'readonly');
-		const store = transaction.objectStore(storeName);
 		const request = store.get(key);
 
 		request.onerror = () => {
@@ -75,12 +172,11 @@ export async function setItem<T>(
 	value: T,
 	options: IndexedDBOptions = {}
 ): Promise<void> {
-	const { db, storeName } = await openDB(options);
+	const store = await openStore(options, 'readwrite');
 
 	return new Promise((resolve, reject) => {
-		const transaction = db.transaction(storeName, 'readwrite');
-		const store = transaction.objectStore(storeName);
-		const request = store.put(value, key);
+		// Stores with a key path read the key from the value
+		const request = store.keyPath === null ? store.put(value, key) : store.put(value);
 
 		request.onerror = () => {
 			reject(request.error);
@@ -93,11 +189,9 @@ export async function setItem<T>(
 }
 
 export async function removeItem(key: string, options: IndexedDBOptions = {}): Promise<void> {
-	const { db, storeName } = await openDB(options);
+	const store = await openStore(options, 'readwrite');
 
 	return new Promise((resolve, reject) => {
-		const transaction = db.transaction(storeName, 'readwrite');
-		const store = transaction.objectStore(storeName);
 		const request = store.delete(key);
 
 		request.onerror = () => {
@@ -110,26 +204,132 @@ export async function removeItem(key: string, options: IndexedDBOptions = {}): P
 	});
 }
 
+export async function keys(options: IndexedDBOptions = {}): Promise<string[]> {
+	const store = await openStore(options, 'readonly');
+
+	return new Promise((resolve, reject) => {
+		const request = store.getAllKeys();
+
+		request.onerror = () => {
+			reject(request.error);
+		};
+
+		request.onsuccess = () => {
+			resolve(request.result.map(String));
+		};
+	});
+}
+
+export async function entries<T>(options: IndexedDBOptions = {}): Promise<[string, T][]> {
+	const store = await openStore(options, 'readonly');
+
+	return new Promise((resolve, reject) => {
+		const request = store.openCursor();
+		const result: [string, T][] = [];
+
+		request.onerror = () => {
+			reject(request.error);
+		};
+
+		request.onsuccess = () => {
+			const cursor = request.result;
+			if (!cursor) return resolve(result);
+			result.push([String(cursor.key), cursor.value]);
+			cursor.continue();
+		};
+	});
+}
+
+export interface RecordChanges {
+	put: [IDBValidKey, unknown][];
+	delete: IDBValidKey[];
+}
+
+/** Reads up to `limit` records in key order, starting after the key `after`. */
+export async function getRecords<T>(
+	options: IndexedDBOptions = {},
+	after?: IDBValidKey,
+	limit?: number
+): Promise<[IDBValidKey, T][]> {
+	const store = await openStore(options, 'readonly');
+
+	return new Promise((resolve, reject) => {
+		const range = after === undefined ? undefined : IDBKeyRange.lowerBound(after, true);
+		const request = store.openCursor(range);
+		const result: [IDBValidKey, T][] = [];
+
+		request.onerror = () => {
+			reject(request.error);
+		};
+
+		request.onsuccess = () => {
+			const cursor = request.result;
+			if (!cursor || result.length === limit) return resolve(result);
+			result.push([cursor.key, cursor.value]);
+			cursor.continue();
+		};
+	});
+}
+
+/** Applies puts and deletes in a single transaction, resolving once it is committed. */
+export async function writeRecords(
+	changes: RecordChanges,
+	options: IndexedDBOptions = {}
+): Promise<void> {
+	const store = await openStore(options, 'readwrite');
+
+	return new Promise((resolve, reject) => {
+		changes.put.forEach(([key, value]) =>
+			store.keyPath === null ? store.put(value, key) : store.put(value)
+		);
+		changes.delete.forEach((key) => store.delete(key));
+
+		const { transaction } = store;
+		transaction.oncomplete = () => {
+			resolve();
+		};
+
+		transaction.onerror = () => {
+			reject(transaction.error);
+		};
+
+		transaction.onabort = () => {
+			reject(transaction.error);
+		};
+	});
+}
+
+export async function clearRecords(options: IndexedDBOptions = {}): Promise<void> {
+	const store = await openStore(options, 'readwrite');
+
+	return new Promise((resolve, reject) => {
+		const request = store.clear();
+
+		request.onerror = () => {
+			reject(request.error);
+		};
+
+		request.onsuccess = () => {
+			resolve();
+		};
+	});
+}
+
+/** Closes the connection of the database, shared by all of its stores. */
 export function closeDB(options: IndexedDBOptions = {}): void {
 	const dbName = options.dbName ?? DEFAULT_DB_NAME;
-	const storeName = options.storeName ?? DEFAULT_STORE_NAME;
-	const version = options.version ?? DEFAULT_VERSION;
-
-	const cacheKey = getCacheKey({ dbName, storeName, version });
-	const cached = connectionCache.get(cacheKey);
-	if (cached) {
-		cached.db.close();
-		connectionCache.delete(cacheKey);
-	}
+	const db = connections.get(dbName);
+	if (db) close(dbName, db);
 }
 
 export function closeAllDBs(): void {
-	for (const connection of connectionCache.values()) {
-		connection.db.close();
+	for (const [dbName, db] of connections) {
+		close(dbName, db);
 	}
-	connectionCache.clear();
+	databases.clear();
 }
 
 export function clearConnectionCache(): void {
-	connectionCache = new Map();
+	databases = new Map();
+	connections = new Map();
 }
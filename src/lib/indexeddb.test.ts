@@ -1,11 +1,31 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { persistedStateAsync } from './index.svelte';
+import {
+	createPersistedStateScope,
+	exportBackup,
+	importBackup,
+	countRecords,
+	getRecordsByIndex,
+	iterateRecords,
+	persistedCollection,
+	persistedQuery,
+	persistedState,
+	persistedStateAsync,
+	queryRecords,
+	type AsyncStorageAdapter,
+	type StandardSchemaV1
+} from './index.svelte';
 import {
 	getItem,
 	setItem,
+	keys,
+	getRecords,
+	writeRecords,
+	openDB,
 	closeAllDBs,
 	clearConnectionCache
 } from './indexeddb-storage.js';
+import { servePersistence, workerAdapter } from './worker.js';
+import { applyPatch, createPatch } from './patch.js';
 
 interface TestState {
 	count: number;
@@ -19,6 +39,10 @@ async function waitForHydration() {
 	await new Promise((resolve) => setTimeout(resolve, 50));
 }
 
+function idb(name: string) {
+	return { dbName: `svelte-persisted-state:${name}`, storeName: 'items' };
+}
+
 describe('IndexedDB Storage', () => {
 	beforeEach(() => {
 		closeAllDBs();
@@ -56,6 +80,13 @@ describe('IndexedDB Storage', () => {
 			expect(result).toBe('second');
 		});
 
+		it('should list stored keys', async () => {
+			const options = { dbName: 'keys-db' };
+			await setItem('a', 1, options);
+			await setItem('b', 2, options);
+			expect(await keys(options)).toEqual(['a', 'b']);
+		});
+
 		it('should use custom database options', async () => {
 			const options = { dbName: 'custom-db', storeName: 'custom-store', version: 1 };
 			await setItem('key', 'value', options);
@@ -116,6 +147,26 @@ describe('IndexedDB Storage', () => {
 			expect(state.current).toBe('initialValue');
 		});
 
+		it('should remove the stored entry and notify other tabs', async () => {
+			const state1 = persistedStateAsync<string>('removeKey', 'initialValue');
+			const state2 = persistedStateAsync<string>('removeKey', 'initialValue');
+
+			await state1.ready;
+			await state2.ready;
+
+			state1.current = 'newValue';
+			await waitForNextTick();
+			await waitForHydration();
+			expect(state2.current).toBe('newValue');
+
+			await state1.remove();
+			await waitForHydration();
+
+			expect(state1.current).toBe('initialValue');
+			expect(state2.current).toBe('initialValue');
+			expect(await getItem<string>('removeKey')).toBeNull();
+		});
+
 		it('should call onHydrated callback', async () => {
 			await setItem('testKey5', { count: 42 });
 
@@ -264,6 +315,1474 @@ describe('IndexedDB Storage', () => {
 		});
 	});
 
+	describe('versioning and migrations', () => {
+		it('should store values in a versioned envelope', async () => {
+			const state = persistedStateAsync<TestState>('versionKey1', { count: 0 }, { version: 1 });
+
+			await state.ready;
+
+			state.current = { count: 2 };
+			await waitForNextTick();
+			await waitForHydration();
+
+			const stored = await getItem<{ version: number; data: TestState }>('versionKey1');
+			expect(stored?.version).toBe(1);
+			expect(stored?.data).toEqual({ count: 2 });
+		});
+
+		it('should migrate unversioned values on hydrate', async () => {
+			await setItem('versionKey2', { total: 3 });
+
+			const state = persistedStateAsync<TestState>(
+				'versionKey2',
+				{ count: 0 },
+				{
+					version: 1,
+					migrations: { 1: (v: { total: number }) => ({ count: v.total }) }
+				}
+			);
+
+			await state.ready;
+
+			expect(state.current).toEqual({ count: 3 });
+		});
+
+		it('should migrate values received via BroadcastChannel', async () => {
+			const state = persistedStateAsync<TestState>(
+				'versionKey3',
+				{ count: 0 },
+				{
+					version: 2,
+					migrations: { 2: (v: { total: number }) => ({ count: v.total }) }
+				}
+			);
+
+			await state.ready;
+
+			const channel = new BroadcastChannel('svelte-persisted-state:svelte-persisted-state');
+			channel.postMessage({
+				key: 'versionKey3',
+				value: { __sps: 1, version: 1, data: { total: 9 } }
+			});
+
+			await waitForNextTick();
+			await waitForHydration();
+
+			expect(state.current).toEqual({ count: 9 });
+
+			channel.close();
+		});
+	});
+
+	describe('validation', () => {
+		const asyncSchema: StandardSchemaV1<TestState> = {
+			'~standard': {
+				version: 1,
+				vendor: 'test',
+				validate: async (value) =>
+					typeof (value as TestState)?.count === 'number'
+						? { value: value as TestState }
+						: { issues: [{ message: 'count must be a number', path: ['count'] }] }
+			}
+		};
+
+		it('should support asynchronous Standard Schema validators', async () => {
+			await setItem('validateKey1', { count: 'tampered' });
+
+			const onValidationError = vi.fn();
+			const state = persistedStateAsync<TestState>(
+				'validateKey1',
+				{ count: 0 },
+				{
+					validate: asyncSchema,
+					onValidationError
+				}
+			);
+
+			await state.ready;
+
+			expect(onValidationError).toHaveBeenCalled();
+			expect(state.current).toEqual({ count: 0 });
+		});
+
+		it('should validate values received via BroadcastChannel', async () => {
+			const state = persistedStateAsync<TestState>(
+				'validateKey2',
+				{ count: 1 },
+				{
+					validate: asyncSchema,
+					onValidationError: () => ({ count: -1 })
+				}
+			);
+
+			await state.ready;
+
+			const channel = new BroadcastChannel('svelte-persisted-state:svelte-persisted-state');
+			channel.postMessage({ key: 'validateKey2', value: { count: 'tampered' } });
+
+			await waitForNextTick();
+			await waitForHydration();
+
+			expect(state.current).toEqual({ count: -1 });
+
+			channel.close();
+		});
+	});
+
+	describe('write scheduling', () => {
+		it('should debounce writes and flush them on demand', async () => {
+			const state = persistedStateAsync<string>('debounceKey', 'initial', {
+				writeDebounceMs: 1000
+			});
+
+			await state.ready;
+
+			state.current = 'first';
+			await waitForNextTick();
+			state.current = 'second';
+			await waitForNextTick();
+
+			expect(await getItem<string>('debounceKey')).toBeNull();
+
+			await state.flush();
+
+			expect(await getItem<string>('debounceKey')).toBe('second');
+		});
+	});
+
+	describe('encryption', () => {
+		it('should encrypt values at rest and decrypt them on hydrate', async () => {
+			const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+				'encrypt',
+				'decrypt'
+			]);
+
+			const writer = persistedStateAsync<TestState>(
+				'encryptedKey',
+				{ count: 0 },
+				{
+					encryption: { key },
+					syncTabs: false
+				}
+			);
+			await writer.ready;
+
+			writer.current = { count: 12 };
+			await waitForNextTick();
+			await writer.flush();
+
+			const stored = await getItem<string>('encryptedKey');
+			expect(stored?.startsWith('enc:v1:')).toBe(true);
+
+			const reader = persistedStateAsync<TestState>(
+				'encryptedKey',
+				{ count: 0 },
+				{
+					encryption: { key: () => key },
+					syncTabs: false
+				}
+			);
+
+			expect(await reader.ready).toEqual({ count: 12 });
+		});
+	});
+
+	describe('compression', () => {
+		it('should compress large values and detect them on hydrate', async () => {
+			const notes = Array.from({ length: 100 }, (_, i) => ({ id: i, title: `Note ${i}` }));
+
+			const writer = persistedStateAsync<typeof notes>('compressedKey', [], {
+				compression: { threshold: 100, format: 'deflate' },
+				syncTabs: false
+			});
+			await writer.ready;
+
+			writer.current = notes;
+			await waitForNextTick();
+			await writer.flush();
+
+			const stored = await getItem<string>('compressedKey');
+			expect(stored?.startsWith('df:v1:')).toBe(true);
+
+			const reader = persistedStateAsync<typeof notes>('compressedKey', [], { syncTabs: false });
+
+			expect(await reader.ready).toEqual(notes);
+		});
+
+		it('should keep structured-clone types of compressed values', async () => {
+			const value = {
+				since: new Date('2024-01-01T00:00:00.000Z'),
+				tags: new Set(['a', 'b']),
+				counts: new Map([['notes', 10n]]),
+				padding: 'x'.repeat(200)
+			};
+			const options = { compression: { threshold: 100 }, syncTabs: false };
+
+			const writer = persistedStateAsync('compressedTypes', value, options);
+			await writer.ready;
+			writer.current = { ...value, tags: new Set(['c']) };
+			await waitForNextTick();
+			await writer.flush();
+			expect(await getItem<string>('compressedTypes')).toMatch(/^gz:v1:/);
+
+			const reader = persistedStateAsync('compressedTypes', value, options);
+			expect(await reader.ready).toEqual({ ...value, tags: new Set(['c']) });
+		});
+	});
+
+	describe('expiry', () => {
+		it('should store the expiry and discard expired values on hydrate', async () => {
+			const writer = persistedStateAsync<string>('ttlKey', 'initial', {
+				ttl: 60_000,
+				syncTabs: false
+			});
+			await writer.ready;
+
+			writer.current = 'cached';
+			await waitForNextTick();
+			await writer.flush();
+
+			expect(writer.expiresIn).toBeGreaterThan(59_000);
+			expect(await getItem('ttlKey')).toMatchObject({
+				data: 'cached',
+				expiresAt: writer.expiresAt
+			});
+
+			await setItem('ttlKey', { __sps: 1, expiresAt: Date.now() - 1, data: 'stale' });
+			const reader = persistedStateAsync<string>('ttlKey', 'initial', { syncTabs: false });
+
+			expect(await reader.ready).toBe('initial');
+			expect(reader.expiresAt).toBeNull();
+			expect(await getItem('ttlKey')).toBeNull();
+		});
+
+		it('should not renew the expiry when the value is only loaded', async () => {
+			const options = { ttl: 60_000, syncTabs: false };
+			const writer = persistedStateAsync<string>('renewedKey', 'initial', options);
+			await writer.ready;
+			writer.current = 'cached';
+			await waitForNextTick();
+			await writer.flush();
+			const stored = await getItem('renewedKey');
+
+			await new Promise((resolve) => setTimeout(resolve, 20));
+			const reader = persistedStateAsync<string>('renewedKey', 'initial', options);
+			expect(await reader.ready).toBe('cached');
+			await waitForNextTick();
+			await reader.flush();
+
+			expect(reader.expiresAt).toBe(writer.expiresAt);
+			expect(await getItem('renewedKey')).toEqual(stored);
+		});
+
+		it('should reset the state when the value expires while watching', async () => {
+			const state = persistedStateAsync<string>('watchedKey', 'initial', {
+				ttl: 30,
+				watchExpiry: true,
+				syncTabs: false
+			});
+			await state.ready;
+
+			state.current = 'cached';
+			await waitForNextTick();
+			await state.flush();
+
+			await new Promise((resolve) => setTimeout(resolve, 60));
+
+			expect(state.current).toBe('initial');
+			expect(await getItem('watchedKey')).toBeNull();
+		});
+	});
+
+	describe('scopes', () => {
+		it('should track IndexedDB-backed states of a scope', async () => {
+			await setItem('app:settings', { count: 4 });
+			const scope = createPersistedStateScope({ prefix: 'app', syncTabs: false });
+			const settings = scope.persistedStateAsync<TestState>('settings', { count: 0 });
+			const theme = scope.persistedState('theme', 'light');
+
+			expect(await scope.export()).toEqual({ settings: { count: 4 }, theme: 'light' });
+
+			await scope.clearAll();
+
+			expect(settings.current).toEqual({ count: 0 });
+			expect(theme.current).toBe('light');
+			expect(await getItem('app:settings')).toBeNull();
+		});
+
+		it('should re-hydrate IndexedDB-backed states when the partition changes', async () => {
+			await setItem('app:bob:settings', { count: 9 });
+			const user = persistedState('currentUser', 'alice', { storage: 'session' });
+			const scope = createPersistedStateScope({
+				prefix: 'app',
+				partition: () => user.current,
+				syncTabs: false
+			});
+			const settings = scope.persistedStateAsync<TestState>('settings', { count: 0 });
+			await settings.ready;
+
+			settings.current = { count: 1 };
+			await waitForNextTick();
+			await settings.flush();
+
+			user.current = 'bob';
+			await waitForNextTick();
+			expect(await settings.ready).toEqual({ count: 9 });
+			expect(await getItem('app:alice:settings')).toEqual({ count: 1 });
+
+			await scope.purgePartition('alice');
+			expect(await getItem('app:alice:settings')).toBeNull();
+			expect(await getItem('app:bob:settings')).toEqual({ count: 9 });
+		});
+	});
+
+	describe('partial persistence', () => {
+		it('should store picked paths and merge them into the initial value', async () => {
+			const initial = { filters: { tags: new Set<string>(), query: '' }, page: 1 };
+			const state = persistedStateAsync('partialKey', initial, { pick: ['filters.tags'] });
+			await state.ready;
+
+			state.current = { filters: { tags: new Set(['a']), query: 'draft' }, page: 4 };
+			await waitForNextTick();
+			await state.flush();
+
+			expect(await getItem('partialKey')).toEqual({ filters: { tags: new Set(['a']) } });
+
+			const restored = persistedStateAsync('partialKey', initial, { pick: ['filters.tags'] });
+			expect(await restored.ready).toEqual({
+				filters: { tags: new Set(['a']), query: '' },
+				page: 1
+			});
+		});
+	});
+
+	describe('merging with defaults', () => {
+		it('should deep-merge stored values on hydrate and cross-tab updates', async () => {
+			await setItem('mergeKey', { editor: { tabs: 2 } });
+
+			const state = persistedStateAsync(
+				'mergeKey',
+				{ theme: 'light', editor: { tabs: 4, wrap: true } },
+				{
+					merge: 'deep',
+					syncTabs: true
+				}
+			);
+			expect(await state.ready).toEqual({ theme: 'light', editor: { tabs: 2, wrap: true } });
+
+			const channel = new BroadcastChannel('svelte-persisted-state:svelte-persisted-state');
+			channel.postMessage({ key: 'mergeKey', value: { theme: 'dark' } });
+			await waitForHydration();
+			channel.close();
+
+			expect(state.current).toEqual({ theme: 'dark', editor: { tabs: 4, wrap: true } });
+		});
+	});
+
+	describe('collections', () => {
+		interface Note {
+			id: number;
+			text: string;
+		}
+
+		const notes = (count: number) =>
+			Array.from({ length: count }, (_, i) => ({ id: i + 1, text: `note ${i + 1}` }));
+
+		it('should store each item as its own record', async () => {
+			const collection = persistedCollection<Note>('notes-records', { keyPath: 'id' });
+			await collection.ready;
+
+			collection.current.push(...notes(3));
+			await waitForNextTick();
+			await collection.flush();
+
+			expect(await getRecords(idb('notes-records'))).toEqual([
+				[1, { id: 1, text: 'note 1' }],
+				[2, { id: 2, text: 'note 2' }],
+				[3, { id: 3, text: 'note 3' }]
+			]);
+		});
+
+		it('should only write changed and removed items', async () => {
+			await writeRecords(
+				{ put: notes(3).map((note) => [note.id, note]), delete: [] },
+				idb('notes-diff')
+			);
+			const collection = persistedCollection<Note>('notes-diff', { keyPath: 'id' });
+			await collection.ready;
+
+			// Changed behind the collection's back, so a rewrite of item 2 would be noticed
+			await writeRecords(
+				{ put: [[2, { id: 2, text: 'external' }]], delete: [] },
+				idb('notes-diff')
+			);
+			collection.current[0].text = 'edited';
+			collection.current.splice(2, 1);
+			await waitForNextTick();
+			await collection.flush();
+
+			expect(await getRecords(idb('notes-diff'))).toEqual([
+				[1, { id: 1, text: 'edited' }],
+				[2, { id: 2, text: 'external' }]
+			]);
+		});
+
+		it('should load items in pages', async () => {
+			await writeRecords(
+				{ put: notes(5).map((note) => [note.id, note]), delete: [] },
+				idb('notes-pages')
+			);
+			const collection = persistedCollection<Note>('notes-pages', {
+				keyPath: 'id',
+				pageSize: 2,
+				lazy: true
+			});
+
+			expect((await collection.ready).map((note) => note.id)).toEqual([1, 2]);
+			expect(collection.hasMore).toBe(true);
+
+			expect(await collection.loadMore()).toBe(true);
+			expect(await collection.loadMore()).toBe(false);
+			expect(collection.current.map((note) => note.id)).toEqual([1, 2, 3, 4, 5]);
+			expect(collection.hasMore).toBe(false);
+		});
+
+		it('should load every page unless lazy', async () => {
+			await writeRecords(
+				{ put: notes(5).map((note) => [note.id, note]), delete: [] },
+				idb('notes-eager')
+			);
+			const collection = persistedCollection<Note>('notes-eager', { keyPath: 'id', pageSize: 2 });
+
+			expect(await collection.ready).toHaveLength(5);
+			expect(collection.isLoading).toBe(false);
+		});
+
+		it('should sync changes across tabs', async () => {
+			const first = persistedCollection<Note>('notes-sync', { keyPath: 'id' });
+			const second = persistedCollection<Note>('notes-sync', { keyPath: 'id' });
+			await Promise.all([first.ready, second.ready]);
+
+			first.current = notes(2);
+			await waitForNextTick();
+			await first.flush();
+			await waitForHydration();
+			expect(second.current).toEqual(notes(2));
+
+			second.current = second.current.filter((note) => note.id !== 1);
+			await waitForNextTick();
+			await second.flush();
+			await waitForHydration();
+			expect(first.current).toEqual([{ id: 2, text: 'note 2' }]);
+		});
+
+		it('should delete every stored item on clear', async () => {
+			await writeRecords(
+				{ put: notes(4).map((note) => [note.id, note]), delete: [] },
+				idb('notes-clear')
+			);
+			const collection = persistedCollection<Note>('notes-clear', {
+				keyPath: 'id',
+				pageSize: 2,
+				lazy: true
+			});
+			await collection.ready;
+
+			await collection.clear();
+
+			expect(collection.current).toEqual([]);
+			expect(await getRecords(idb('notes-clear'))).toEqual([]);
+		});
+	});
+
+	describe('indexes and queries', () => {
+		interface Post {
+			slug: string;
+			createdAt: number;
+			tags: string[];
+		}
+
+		const posts: Post[] = [
+			{ slug: 'a', createdAt: 30, tags: ['svelte'] },
+			{ slug: 'b', createdAt: 10, tags: ['svelte', 'idb'] },
+			{ slug: 'c', createdAt: 20, tags: ['idb'] },
+			{ slug: 'd', createdAt: 40, tags: [] }
+		];
+		const postsDB = {
+			dbName: 'query-test',
+			storeName: 'posts',
+			keyPath: 'slug',
+			indexes: [
+				{ name: 'createdAt', keyPath: 'createdAt' },
+				{ name: 'tags', keyPath: 'tags', multiEntry: true }
+			]
+		};
+
+		beforeEach(async () => {
+			for (const post of posts) await setItem(post.slug, post, postsDB);
+		});
+
+		it('should read records in index order with offset and limit', async () => {
+			const newest = await queryRecords<Post>(postsDB, {
+				index: 'createdAt',
+				direction: 'prev',
+				offset: 1,
+				limit: 2
+			});
+
+			expect(newest.map((post) => post.slug)).toEqual(['a', 'c']);
+		});
+
+		it('should filter by key range and count without reading', async () => {
+			const recent = await queryRecords<Post>(postsDB, {
+				index: 'createdAt',
+				range: { gt: 10, lte: 30 }
+			});
+
+			expect(recent.map((post) => post.slug)).toEqual(['c', 'a']);
+			expect(await countRecords(postsDB, { index: 'createdAt', range: { gte: 20 } })).toBe(3);
+			expect(await countRecords(postsDB)).toBe(4);
+		});
+
+		it('should look up records by a multi-entry index', async () => {
+			const tagged = await getRecordsByIndex<Post>(postsDB, 'tags', 'idb');
+
+			expect(tagged.map((post) => post.slug)).toEqual(['b', 'c']);
+		});
+
+		it('should stop iterating when the callback returns false', async () => {
+			const visited: string[] = [];
+			await iterateRecords<Post>(postsDB, {}, (post) => {
+				visited.push(post.slug);
+				return visited.length < 2;
+			});
+
+			expect(visited).toEqual(['a', 'b']);
+		});
+
+		it('should run the upgrade callback with the versions', async () => {
+			const upgrade = vi.fn();
+			await setItem('key', 'value', { dbName: 'upgrade-test', upgrade });
+
+			expect(upgrade).toHaveBeenCalledWith(expect.anything(), expect.anything(), 0, 1);
+		});
+
+		it('should keep query results of a collection up to date', async () => {
+			interface Note {
+				id: number;
+				createdAt: number;
+			}
+			const indexedDB = { indexes: [{ name: 'createdAt', keyPath: 'createdAt' }] };
+			const notes = persistedCollection<Note>('notes-query', { keyPath: 'id', indexedDB });
+			const limit = persistedState('limit', 2, { storage: 'session' });
+			const newest = persistedQuery<Note>(
+				() => ({ index: 'createdAt', direction: 'prev', limit: limit.current }),
+				{ collection: 'notes-query', indexedDB }
+			);
+			await Promise.all([notes.ready, newest.ready]);
+			expect(newest.current).toEqual([]);
+
+			notes.current = [
+				{ id: 1, createdAt: 100 },
+				{ id: 2, createdAt: 300 },
+				{ id: 3, createdAt: 200 }
+			];
+			await waitForNextTick();
+			await notes.flush();
+			await waitForHydration();
+			expect(newest.current.map((note) => note.id)).toEqual([2, 3]);
+
+			limit.current = 3;
+			await waitForNextTick();
+			await newest.ready;
+			expect(newest.current.map((note) => note.id)).toEqual([2, 3, 1]);
+		});
+	});
+
+	describe('database versioning', () => {
+		function openRaw(dbName: string, version?: number) {
+			return new Promise<IDBDatabase>((resolve, reject) => {
+				const request = indexedDB.open(dbName, version);
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+		}
+
+		it('should create every store of a database by raising its version', async () => {
+			await setItem('key', 'a', { dbName: 'multi-store', storeName: 'first' });
+			await setItem('key', 'b', { dbName: 'multi-store', storeName: 'second' });
+
+			expect(await getItem('key', { dbName: 'multi-store', storeName: 'first' })).toBe('a');
+			expect(await getItem('key', { dbName: 'multi-store', storeName: 'second' })).toBe('b');
+			const { db } = await openDB({ dbName: 'multi-store', storeName: 'second' });
+			expect(db.version).toBe(2);
+			expect([...db.objectStoreNames]).toEqual(['first', 'second']);
+		});
+
+		it('should add missing indexes to an existing store', async () => {
+			const store = { dbName: 'late-index', storeName: 'posts', keyPath: 'id' };
+			await setItem('1', { id: '1', rank: 2 }, store);
+			await setItem('2', { id: '2', rank: 1 }, store);
+
+			const byRank = await queryRecords<{ id: string }>(
+				{ ...store, indexes: [{ name: 'rank', keyPath: 'rank' }] },
+				{ index: 'rank' }
+			);
+
+			expect(byRank.map((post) => post.id)).toEqual(['2', '1']);
+		});
+
+		it('should close its connection when another tab upgrades the database', async () => {
+			await setItem('key', 'before', { dbName: 'other-tab' });
+
+			const other = await openRaw('other-tab', 5);
+			expect(other.version).toBe(5);
+			other.close();
+
+			await setItem('key', 'after', { dbName: 'other-tab' });
+			expect(await getItem('key', { dbName: 'other-tab' })).toBe('after');
+		});
+
+		it('should report upgrades blocked by other connections', async () => {
+			await setItem('key', 'value', { dbName: 'blocked' });
+			const other = await openRaw('blocked');
+			const onBlocked = vi.fn(() => other.close());
+
+			await setItem('key', 'value', { dbName: 'blocked', storeName: 'new', onBlocked });
+
+			expect(onBlocked).toHaveBeenCalled();
+			expect(await getItem('key', { dbName: 'blocked', storeName: 'new' })).toBe('value');
+		});
+	});
+
+	describe('conflict resolution', () => {
+		it('should resolve concurrent changes received via BroadcastChannel', async () => {
+			const onRemoteChange = vi.fn();
+			const state = persistedStateAsync(
+				'conflictKey',
+				{ theme: 'light', fontSize: 14 },
+				{
+					resolveConflict: 'merge-fields',
+					onRemoteChange,
+					writeDebounceMs: 1000
+				}
+			);
+			await state.ready;
+
+			state.current.theme = 'dark';
+			await waitForNextTick();
+
+			const channel = new BroadcastChannel('svelte-persisted-state:svelte-persisted-state');
+			channel.postMessage({
+				key: 'conflictKey',
+				value: {
+					__sps: 1,
+					stamp: { clock: 1, tab: 'other', time: Date.now() },
+					data: { theme: 'light', fontSize: 16 }
+				}
+			});
+			await waitForNextTick();
+			await waitForHydration();
+			channel.close();
+
+			expect(state.current).toEqual({ theme: 'dark', fontSize: 16 });
+			expect(onRemoteChange).toHaveBeenCalledWith(expect.objectContaining({ conflict: true }));
+
+			await state.flush();
+			const stored = (await getItem('conflictKey')) as { data: unknown; stamp: unknown };
+			expect(stored.data).toEqual({ theme: 'dark', fontSize: 16 });
+			expect(stored.stamp).toMatchObject({ clock: 2 });
+		});
+
+		it('should not notify other tabs when a state only loads its value', async () => {
+			const onRemoteChange = vi.fn();
+			const first = persistedStateAsync<string>('openedKey', 'a', {
+				resolveConflict: 'last-write-wins',
+				onRemoteChange
+			});
+			await first.ready;
+			first.current = 'b';
+			await waitForNextTick();
+			await first.flush();
+			const stored = await getItem('openedKey');
+
+			const second = persistedStateAsync<string>('openedKey', 'a', {
+				resolveConflict: 'last-write-wins'
+			});
+			expect(await second.ready).toBe('b');
+			await waitForNextTick();
+			await second.flush();
+			await waitForNextTick();
+
+			expect(await getItem('openedKey')).toEqual(stored);
+			expect(onRemoteChange).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('leader election', () => {
+		// Plays another tab leading the election of `name`
+		function leaderTab(name: string) {
+			const channel = new BroadcastChannel(`svelte-persisted-state:leader:${name}`);
+			const messages: unknown[] = [];
+			channel.onmessage = (event) => {
+				messages.push(event.data);
+				if (event.data.type === 'who') channel.postMessage({ type: 'leader', id: '0' });
+			};
+			return { channel, messages };
+		}
+
+		it('should lead and persist when no other tab leads', async () => {
+			const state = persistedStateAsync('leaderKey1', 'a', {
+				leaderElection: { name: 'alone', heartbeatMs: 20 }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			expect(state.isLeader).toBe(true);
+			state.current = 'b';
+			await waitForHydration();
+			expect(await getItem('leaderKey1')).toBe('b');
+		});
+
+		it('should forward changes to the leader tab', async () => {
+			const tab = leaderTab('forward');
+			const state = persistedStateAsync('leaderKey2', 'a', {
+				leaderElection: { name: 'forward' }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			expect(state.isLeader).toBe(false);
+			state.current = 'b';
+			await waitForHydration();
+
+			expect(tab.messages).toContainEqual({
+				type: 'forward',
+				from: expect.any(String),
+				key: 'leaderKey2',
+				change: { value: 'b' }
+			});
+			expect(await getItem('leaderKey2')).toBeNull();
+			tab.channel.close();
+		});
+
+		it('should take over and persist forwarded changes when the leader stops', async () => {
+			const tab = leaderTab('failover');
+			const state = persistedStateAsync('leaderKey3', 'a', {
+				leaderElection: { name: 'failover', heartbeatMs: 20 }
+			});
+			await state.ready;
+			await waitForNextTick();
+
+			expect(state.isLeader).toBe(false);
+			state.current = 'b';
+			tab.channel.close();
+			await new Promise((resolve) => setTimeout(resolve, 150));
+
+			expect(state.isLeader).toBe(true);
+			expect(await getItem('leaderKey3')).toBe('b');
+		});
+
+		it('should persist changes forwarded by other tabs', async () => {
+			const state = persistedStateAsync('leaderKey4', 'a', {
+				leaderElection: { name: 'persist', heartbeatMs: 20 }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			const tab = new BroadcastChannel('svelte-persisted-state:leader:persist');
+			const messages: unknown[] = [];
+			tab.onmessage = (event) => messages.push(event.data);
+			tab.postMessage({ type: 'forward', from: 'x', key: 'leaderKey4', change: { value: 'b' } });
+			tab.postMessage({ type: 'forward', from: 'x', key: 'unknown', change: { value: 'c' } });
+			await waitForHydration();
+
+			expect(state.current).toBe('b');
+			expect(await getItem('leaderKey4')).toBe('b');
+			expect(messages).toContainEqual({ type: 'unhandled', to: 'x', key: 'unknown' });
+			tab.close();
+		});
+
+		it('should flush once the leader tab wrote a forwarded change', async () => {
+			const tab = leaderTab('flush');
+			const state = persistedStateAsync('leaderKey5', 'a', {
+				leaderElection: { name: 'flush' }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			state.current = 'b';
+			await waitForNextTick();
+			let flushed = false;
+			const flush = state.flush().then(() => (flushed = true));
+			await waitForHydration();
+			expect(flushed).toBe(false);
+
+			// The leader tab confirms its write
+			const { from } = tab.messages.find((m) => (m as { type: string }).type === 'forward') as {
+				from: string;
+			};
+			tab.channel.postMessage({ type: 'written', to: from, key: 'leaderKey5' });
+			await flush;
+
+			expect(flushed).toBe(true);
+			expect(state.current).toBe('b');
+			expect(await getItem('leaderKey5')).toBeNull();
+			tab.channel.close();
+		});
+
+		it('should flush without syncTabs once the leader tab confirmed the write', async () => {
+			const tab = leaderTab('nosync');
+			tab.channel.addEventListener('message', (event) => {
+				const { type, from, key } = event.data;
+				if (type === 'forward') tab.channel.postMessage({ type: 'written', to: from, key });
+			});
+			const state = persistedStateAsync('leaderKey6', 'a', {
+				syncTabs: false,
+				leaderElection: { name: 'nosync' }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			state.current = 'b';
+			await waitForNextTick();
+			await state.flush();
+
+			expect(state.isLeader).toBe(false);
+			expect(await getItem('leaderKey6')).toBeNull();
+			tab.channel.close();
+		});
+
+		it('should persist a forwarded change itself when the leader tab cannot', async () => {
+			const tab = leaderTab('handback');
+			tab.channel.addEventListener('message', (event) => {
+				const { type, from, key } = event.data;
+				if (type === 'forward') tab.channel.postMessage({ type: 'unhandled', to: from, key });
+			});
+			const state = persistedStateAsync('leaderKey7', 'a', {
+				leaderElection: { name: 'handback' }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			state.current = 'b';
+			await waitForNextTick();
+			await state.flush();
+
+			expect(await getItem('leaderKey7')).toBe('b');
+			tab.channel.close();
+		});
+
+		it('should persist a forwarded change itself when the leader tab does not answer', async () => {
+			const tab = leaderTab('silent');
+			const state = persistedStateAsync('leaderKey8', 'a', {
+				leaderElection: { name: 'silent', forwardTimeoutMs: 50 }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			state.current = 'b';
+			await waitForNextTick();
+			await state.flush();
+
+			expect(await getItem('leaderKey8')).toBe('b');
+			tab.channel.close();
+		});
+
+		it('should hand a forwarded change back when its write fails', async () => {
+			const onWriteError = vi.fn();
+			const state = persistedStateAsync('leaderKey9', 'a', {
+				storage: {
+					name: 'failing',
+					getItem: async () => null,
+					setItem: async () => {
+						throw new Error('write failed');
+					},
+					removeItem: async () => {},
+					keys: async () => []
+				},
+				onWriteError,
+				leaderElection: { name: 'failing', heartbeatMs: 20 }
+			});
+			await state.ready;
+			await waitForHydration();
+
+			const tab = new BroadcastChannel('svelte-persisted-state:leader:failing');
+			const messages: unknown[] = [];
+			tab.onmessage = (event) => messages.push(event.data);
+			tab.postMessage({ type: 'forward', from: 'x', key: 'leaderKey9', change: { value: 'b' } });
+			await waitForHydration();
+
+			expect(state.isLeader).toBe(true);
+			expect(onWriteError).toHaveBeenCalled();
+			expect(messages).toContainEqual({ type: 'unhandled', to: 'x', key: 'leaderKey9' });
+			expect(messages).not.toContainEqual({ type: 'written', to: 'x', key: 'leaderKey9' });
+			tab.close();
+		});
+	});
+
+	describe('worker persistence', () => {
+		// Plays the worker, serving one end of a channel in this thread
+		function createWorker() {
+			const { port1, port2 } = new MessageChannel();
+			servePersistence(port2);
+			return port1;
+		}
+
+		it('should persist and hydrate through a worker', async () => {
+			const worker = createWorker();
+			const state = persistedStateAsync<TestState>('workerKey', { count: 0 }, { worker });
+			await state.ready;
+
+			state.current = { count: 5 };
+			await waitForNextTick();
+			await state.flush();
+			expect(await getItem('workerKey')).toEqual({ count: 5 });
+
+			const restored = persistedStateAsync<TestState>('workerKey', { count: 0 }, { worker });
+			await restored.ready;
+			expect(restored.current).toEqual({ count: 5 });
+			worker.close();
+		});
+
+		it('should compress values in the worker', async () => {
+			const worker = createWorker();
+			const text = 'persisted '.repeat(100);
+			const state = persistedStateAsync('workerCompressed', '', {
+				worker,
+				compression: { threshold: 100 }
+			});
+			await state.ready;
+
+			state.current = text;
+			await waitForNextTick();
+			await state.flush();
+			expect(await getItem<string>('workerCompressed')).toMatch(/^gz:v1:/);
+
+			const restored = persistedStateAsync('workerCompressed', '', {
+				worker,
+				compression: { threshold: 100 }
+			});
+			expect(await restored.ready).toBe(text);
+			worker.close();
+		});
+
+		it('should fail requests the worker does not answer', async () => {
+			const { port1, port2 } = new MessageChannel();
+			const onHydrationError = vi.fn();
+			const state = persistedStateAsync('workerSilent', 'a', {
+				storage: workerAdapter(port1, { timeoutMs: 50 }),
+				onHydrationError
+			});
+
+			await expect(state.ready).rejects.toThrow('did not answer within 50ms');
+			expect(onHydrationError).toHaveBeenCalled();
+			expect(state.isLoading).toBe(false);
+			port1.close();
+			port2.close();
+		});
+
+		it('should fail pending requests when the worker errors', async () => {
+			// A worker that never answers
+			const worker = Object.assign(new EventTarget(), { postMessage() {} }) as unknown as Worker;
+			const storage = workerAdapter(worker);
+
+			const read = storage.getItem('workerBroken');
+			worker.dispatchEvent(new Event('error'));
+			await expect(read).rejects.toThrow('The persistence worker failed');
+
+			const write = storage.setItem('workerBroken', 'a');
+			worker.dispatchEvent(new Event('messageerror'));
+			await expect(write).rejects.toThrow('could not be deserialized');
+		});
+	});
+
+	describe('history', () => {
+		it('should undo, redo and persist the history', async () => {
+			const state = persistedStateAsync('historyKey', 'a', { history: { persist: true } });
+			await state.ready;
+
+			state.current = 'b';
+			await waitForNextTick();
+			state.current = 'c';
+			await waitForNextTick();
+			state.undo();
+			await waitForNextTick();
+			await state.flush();
+
+			expect(state.current).toBe('b');
+			expect(await getItem('historyKey')).toBe('b');
+			expect(await getItem('historyKey:history')).toEqual({ past: ['a'], future: ['c'] });
+
+			const restored = persistedStateAsync('historyKey', 'a', { history: { persist: true } });
+			await restored.ready;
+			restored.redo();
+			expect(restored.current).toBe('c');
+			expect(restored.canUndo).toBe(true);
+		});
+	});
+
+	describe('operation log', () => {
+		interface Board {
+			title: string;
+			cards: { id: number; text: string }[];
+		}
+		const board: Board = { title: 'Board', cards: [{ id: 1, text: 'a' }] };
+
+		async function logKeys(key: string) {
+			return (await keys()).filter((k) => k.startsWith(`${key}:oplog:`));
+		}
+
+		it('should create and apply JSON patches', () => {
+			const before = { a: 1, list: [1, 2, 3], nested: { 'x/y': true, gone: 1 } };
+			const after = { a: 2, list: [1, 5], nested: { 'x/y': false }, added: 'new' };
+
+			const patch = createPatch(before, after);
+
+			expect(patch).toEqual([
+				{ op: 'replace', path: '/a', value: 2 },
+				{ op: 'replace', path: '/list/1', value: 5 },
+				{ op: 'remove', path: '/list/2' },
+				{ op: 'remove', path: '/nested/gone' },
+				{ op: 'replace', path: '/nested/x~1y', value: false },
+				{ op: 'add', path: '/added', value: 'new' }
+			]);
+			expect(applyPatch(before, patch)).toEqual(after);
+			expect(before.list).toEqual([1, 2, 3]);
+		});
+
+		it('should append operations instead of rewriting the value', async () => {
+			const state = persistedStateAsync('logKey1', board, { operationLog: true });
+			await state.ready;
+
+			state.current.title = 'Renamed';
+			await waitForNextTick();
+			await state.flush();
+			expect(await getItem('logKey1')).toEqual({ ...board, title: 'Renamed' });
+			expect(await logKeys('logKey1')).toHaveLength(0);
+
+			state.current.cards.push({ id: 2, text: 'b' });
+			await waitForNextTick();
+			await state.flush();
+
+			expect(await getItem('logKey1')).toEqual({ ...board, title: 'Renamed' });
+			const [entry] = await logKeys('logKey1');
+			expect(await getItem(entry)).toEqual({
+				patch: [{ op: 'add', path: '/cards/1', value: { id: 2, text: 'b' } }]
+			});
+
+			const restored = persistedStateAsync('logKey1', board, { operationLog: true });
+			expect(await restored.ready).toEqual({
+				title: 'Renamed',
+				cards: [
+					{ id: 1, text: 'a' },
+					{ id: 2, text: 'b' }
+				]
+			});
+		});
+
+		it('should compact the log into a snapshot', async () => {
+			const state = persistedStateAsync('logKey2', board, { operationLog: { compactEvery: 2 } });
+			await state.ready;
+
+			for (const title of ['First', 'Second']) {
+				state.current.title = title;
+				await waitForNextTick();
+				await state.flush();
+			}
+			expect(await logKeys('logKey2')).toHaveLength(1);
+
+			state.current.title = 'Third';
+			await waitForNextTick();
+			await state.flush();
+
+			expect(await logKeys('logKey2')).toHaveLength(0);
+			expect(await getItem('logKey2')).toEqual({ ...board, title: 'Third' });
+		});
+
+		it('should exchange patches with other tabs', async () => {
+			const channel = new BroadcastChannel('svelte-persisted-state:svelte-persisted-state');
+			const messages: unknown[] = [];
+			channel.onmessage = (event) => messages.push(event.data);
+
+			await setItem('logKey3', board);
+			const state = persistedStateAsync('logKey3', board, { operationLog: true });
+			await state.ready;
+
+			state.current.title = 'Local';
+			await waitForNextTick();
+			await state.flush();
+			await waitForNextTick();
+			expect(messages).toContainEqual({
+				key: 'logKey3',
+				patch: [{ op: 'replace', path: '/title', value: 'Local' }],
+				entry: expect.stringMatching(/^logKey3:oplog:000000000001:/)
+			});
+
+			channel.postMessage({
+				key: 'logKey3',
+				patch: [{ op: 'replace', path: '/cards/0/text', value: 'remote' }],
+				entry: 'logKey3:oplog:000000000002:other'
+			});
+			await waitForHydration();
+
+			expect(state.current).toEqual({ title: 'Local', cards: [{ id: 1, text: 'remote' }] });
+			expect(await logKeys('logKey3')).toHaveLength(1);
+			channel.close();
+		});
+
+		it('should log only the persisted part of the value', async () => {
+			const initial = { title: 'Board', draft: '' };
+			const options = { operationLog: true, omit: ['draft' as const] };
+			await setItem('logKey4', { title: 'Board' });
+			const state = persistedStateAsync('logKey4', initial, options);
+			await state.ready;
+
+			state.current.draft = 'secret';
+			await waitForNextTick();
+			await state.flush();
+			expect(await logKeys('logKey4')).toHaveLength(0);
+
+			state.current.title = 'Renamed';
+			await waitForNextTick();
+			await state.flush();
+			const [entry] = await logKeys('logKey4');
+			expect(await getItem(entry)).toEqual({
+				patch: [{ op: 'replace', path: '/title', value: 'Renamed' }]
+			});
+
+			const restored = persistedStateAsync('logKey4', initial, options);
+			expect(await restored.ready).toEqual({ title: 'Renamed', draft: '' });
+		});
+
+		it('should log only picked paths', async () => {
+			const options = { operationLog: true, pick: ['title' as const] };
+			await setItem('logKey5', { title: 'Board' });
+			const state = persistedStateAsync('logKey5', board, options);
+			await state.ready;
+
+			state.current.title = 'Renamed';
+			state.current.cards.push({ id: 2, text: 'b' });
+			await waitForNextTick();
+			await state.flush();
+			const [entry] = await logKeys('logKey5');
+			expect(await getItem(entry)).toEqual({
+				patch: [{ op: 'replace', path: '/title', value: 'Renamed' }]
+			});
+
+			const restored = persistedStateAsync('logKey5', board, options);
+			expect(await restored.ready).toEqual({ ...board, title: 'Renamed' });
+		});
+
+		it('should migrate logged changes with their snapshot', async () => {
+			const v1 = persistedStateAsync('logKey6', { count: 0 }, { operationLog: true, version: 1 });
+			await v1.ready;
+			for (const count of [5, 7]) {
+				v1.current.count = count;
+				await waitForNextTick();
+				await v1.flush();
+			}
+			expect(await logKeys('logKey6')).toHaveLength(1);
+
+			const v2Options = {
+				operationLog: true,
+				version: 2,
+				migrations: { 2: (value: { count: number }) => ({ total: value.count }) }
+			};
+			const v2 = persistedStateAsync('logKey6', { total: 0 }, v2Options);
+			expect(await v2.ready).toEqual({ total: 7 });
+			expect(await logKeys('logKey6')).toHaveLength(0);
+			expect(await getItem('logKey6')).toEqual({ __sps: 1, version: 2, data: { total: 7 } });
+
+			// A tab still running version 1 logs a change the snapshot cannot take
+			await setItem('logKey6:oplog:000000000009:old', {
+				version: 1,
+				patch: [{ op: 'replace', path: '/count', value: 9 }]
+			});
+			const reloaded = persistedStateAsync('logKey6', { total: 0 }, v2Options);
+			expect(await reloaded.ready).toEqual({ total: 7 });
+		});
+
+		it('should validate and transform the patched value', async () => {
+			const options = {
+				operationLog: true,
+				validate: (value: unknown): value is TestState => (value as TestState).count >= 0,
+				beforeRead: (value: TestState) => ({ count: value.count * 10 }),
+				beforeWrite: (value: TestState) => ({ count: value.count / 10 })
+			};
+			await setItem('logKey7', { count: 1 });
+			const state = persistedStateAsync<TestState>('logKey7', { count: 0 }, options);
+			expect(await state.ready).toEqual({ count: 10 });
+
+			state.current = { count: 20 };
+			await waitForNextTick();
+			await state.flush();
+			const [entry] = await logKeys('logKey7');
+			expect(await getItem(entry)).toEqual({
+				patch: [{ op: 'replace', path: '/count', value: 2 }]
+			});
+
+			await setItem(entry, { patch: [{ op: 'replace', path: '/count', value: -1 }] });
+			const onValidationError = vi.fn();
+			const restored = persistedStateAsync<TestState>(
+				'logKey7',
+				{ count: 0 },
+				{
+					...options,
+					onValidationError
+				}
+			);
+			expect(await restored.ready).toEqual({ count: 0 });
+			expect(onValidationError).toHaveBeenCalled();
+		});
+
+		it('should log a change again when storing it failed', async () => {
+			const onWriteError = vi.fn();
+			await setItem('logKey8', board);
+			const state = persistedStateAsync('logKey8', board, { operationLog: true, onWriteError });
+			await state.ready;
+
+			const put = vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(() => {
+				throw new DOMException('Storage is full', 'QuotaExceededError');
+			});
+			state.current.cards[0].text = 'edited';
+			await waitForNextTick();
+			await state.flush();
+			put.mockRestore();
+			expect(onWriteError).toHaveBeenCalled();
+			expect(await logKeys('logKey8')).toHaveLength(0);
+
+			state.current.title = 'Renamed';
+			await waitForNextTick();
+			await state.flush();
+
+			const restored = persistedStateAsync('logKey8', board, { operationLog: true });
+			expect(await restored.ready).toEqual({
+				title: 'Renamed',
+				cards: [{ id: 1, text: 'edited' }]
+			});
+		});
+
+		it('should renew the expiry with every logged change', async () => {
+			const options = { operationLog: true, ttl: 200 };
+			const state = persistedStateAsync('logKey12', board, options);
+			await state.ready;
+
+			state.current.title = 'Snapshot';
+			await waitForNextTick();
+			await state.flush();
+			const snapshotExpiry = state.expiresAt!;
+
+			await new Promise((resolve) => setTimeout(resolve, 120));
+			state.current.title = 'Logged';
+			await waitForNextTick();
+			await state.flush();
+			expect(await logKeys('logKey12')).toHaveLength(1);
+			expect(state.expiresAt).toBeGreaterThan(snapshotExpiry);
+
+			// The snapshot expired, the logged change did not
+			await new Promise((resolve) => setTimeout(resolve, 120));
+			const restored = persistedStateAsync('logKey12', board, options);
+			expect(await restored.ready).toEqual({ ...board, title: 'Logged' });
+			expect(restored.expiresAt).toBe(state.expiresAt);
+		});
+
+		// Writes a snapshot, then logs a change to it
+		async function logChanges(key: string) {
+			const state = persistedStateAsync(key, board, { operationLog: true });
+			await state.ready;
+			for (const title of ['Logged', 'Logged again']) {
+				state.current.title = title;
+				await waitForNextTick();
+				await state.flush();
+			}
+			expect(await logKeys(key)).toHaveLength(1);
+			return state;
+		}
+
+		it('should drop the log when another tab writes the value whole', async () => {
+			const logged = await logChanges('logKey9');
+			const whole = persistedStateAsync('logKey9', board);
+			await whole.ready;
+
+			whole.current = { ...board, title: 'Whole' };
+			await waitForNextTick();
+			await whole.flush();
+			await waitForHydration();
+
+			expect(await logKeys('logKey9')).toHaveLength(0);
+			expect(logged.current).toEqual({ ...board, title: 'Whole' });
+
+			logged.current.cards[0].text = 'after';
+			await waitForNextTick();
+			await logged.flush();
+
+			const restored = persistedStateAsync('logKey9', board, { operationLog: true });
+			expect(await restored.ready).toEqual({ title: 'Whole', cards: [{ id: 1, text: 'after' }] });
+		});
+
+		it('should drop the log when a worker writes the value whole', async () => {
+			await logChanges('logKey10');
+			const { port1, port2 } = new MessageChannel();
+			servePersistence(port2);
+			const whole = persistedStateAsync('logKey10', board, { worker: port1 });
+			await whole.ready;
+
+			whole.current = { ...board, title: 'Whole' };
+			await waitForNextTick();
+			await whole.flush();
+
+			expect(await logKeys('logKey10')).toHaveLength(0);
+			const restored = persistedStateAsync('logKey10', board, { operationLog: true });
+			expect(await restored.ready).toEqual({ ...board, title: 'Whole' });
+			port1.close();
+		});
+
+		it('should drop the log of values restored from a backup', async () => {
+			await logChanges('logKey11');
+
+			await importBackup({
+				format: 'svelte-persisted-state',
+				version: 1,
+				createdAt: new Date(0).toISOString(),
+				indexedDB: { logKey11: { ...board, title: 'Restored' } }
+			});
+
+			expect(await logKeys('logKey11')).toHaveLength(0);
+			const restored = persistedStateAsync('logKey11', board, { operationLog: true });
+			expect(await restored.ready).toEqual({ ...board, title: 'Restored' });
+		});
+	});
+
+	describe('backup', () => {
+		const indexedDB = { dbName: 'backup-test' };
+
+		it('should export IndexedDB entries with native types tagged', async () => {
+			await setItem('session', { since: new Date(0), tags: new Set(['a']), id: 10n }, indexedDB);
+
+			const backup = await exportBackup({ include: ['indexedDB'], indexedDB });
+
+			expect(backup.local).toBeUndefined();
+			expect(JSON.parse(JSON.stringify(backup.indexedDB))).toEqual({
+				session: {
+					since: { $sps: 'Date', value: '1970-01-01T00:00:00.000Z' },
+					tags: { $sps: 'Set', value: ['a'] },
+					id: { $sps: 'bigint', value: '10' }
+				}
+			});
+		});
+
+		it('should restore IndexedDB entries and update live states', async () => {
+			const backup = await exportBackup({ include: ['indexedDB'], indexedDB });
+			backup.indexedDB = {
+				restored: { count: 3, at: { $sps: 'Date', value: '2024-01-01T00:00:00.000Z' } }
+			};
+			const state = persistedStateAsync(
+				'restored',
+				{ count: 0, at: new Date(0) },
+				{
+					indexedDB,
+					syncTabs: true
+				}
+			);
+			await state.ready;
+
+			await importBackup(JSON.stringify(backup), { include: ['indexedDB'], indexedDB });
+			await waitForHydration();
+
+			expect(await getItem('restored', indexedDB)).toEqual({
+				count: 3,
+				at: new Date('2024-01-01T00:00:00.000Z')
+			});
+			expect(state.current).toEqual({ count: 3, at: new Date('2024-01-01T00:00:00.000Z') });
+		});
+	});
+
+	describe('custom async storage adapters', () => {
+		function createMemoryAdapter(name: string) {
+			const items = new Map<string, unknown>();
+			let listener: ((newValue: unknown) => void) | undefined;
+			const adapter: AsyncStorageAdapter = {
+				name,
+				getItem: async (k) => items.get(k) ?? null,
+				setItem: async (k, v) => void items.set(k, v),
+				removeItem: async (k) => void items.delete(k),
+				keys: async () => [...items.keys()],
+				subscribe: (_k, callback) => {
+					listener = callback;
+					return () => (listener = undefined);
+				}
+			};
+			return { items, adapter, emit: (v: unknown) => listener?.(v) };
+		}
+
+		it('should hydrate from and write to the adapter', async () => {
+			const { items, adapter } = createMemoryAdapter('memory-1');
+			items.set('adapterKey', { count: 3 });
+
+			const state = persistedStateAsync<TestState>(
+				'adapterKey',
+				{ count: 0 },
+				{
+					storage: adapter
+				}
+			);
+
+			expect(state.isLoading).toBe(true);
+			expect(await state.ready).toEqual({ count: 3 });
+
+			state.current = { count: 4 };
+			await waitForNextTick();
+			await waitForHydration();
+
+			expect(items.get('adapterKey')).toEqual({ count: 4 });
+			expect(await getItem('adapterKey')).toBeNull();
+		});
+
+		it('should apply changes reported by the adapter subscription', async () => {
+			const { adapter, emit } = createMemoryAdapter('memory-2');
+			const state = persistedStateAsync<TestState>(
+				'adapterKey',
+				{ count: 0 },
+				{
+					storage: adapter
+				}
+			);
+
+			await state.ready;
+
+			emit({ count: 8 });
+			await waitForNextTick();
+			expect(state.current).toEqual({ count: 8 });
+
+			emit(null);
+			await waitForNextTick();
+			expect(state.current).toEqual({ count: 0 });
+		});
+
+		it('should report a full storage to onQuotaExceeded', async () => {
+			const { adapter } = createMemoryAdapter('memory-3');
+			adapter.setItem = async () => {
+				throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+			};
+			const onQuotaExceeded = vi.fn();
+			const onWriteError = vi.fn();
+			const state = persistedStateAsync<string>('adapterKey', 'initial', {
+				storage: adapter,
+				onQuotaExceeded,
+				onWriteError
+			});
+			await state.ready;
+
+			state.current = 'large';
+			await waitForNextTick();
+			await state.flush();
+
+			expect(onQuotaExceeded).toHaveBeenCalledWith(expect.any(DOMException));
+			expect(onWriteError).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('cross-tab sync via BroadcastChannel', () => {
 		it('should sync state changes across channels', async () => {
 			const state1 = persistedStateAsync<string>('syncKey1', 'initial', {
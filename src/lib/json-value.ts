@@ -0,0 +1,49 @@
+const TYPE_TAG = '$sps';
+
+type TypeName = 'Date' | 'Map' | 'Set' | 'bigint' | 'undefined';
+
+function tag(type: TypeName, value?: unknown) {
+	return { [TYPE_TAG]: type, value };
+}
+
+/** Converts structured-clone values to JSON-safe ones. */
+export function toJSONValue(value: unknown): unknown {
+	if (value === undefined) return tag('undefined');
+	if (typeof value === 'bigint') return tag('bigint', value.toString());
+	if (value instanceof Date) return tag('Date', value.toJSON());
+	if (value instanceof Map) {
+		return tag(
+			'Map',
+			[...value].map(([k, v]) => [toJSONValue(k), toJSONValue(v)])
+		);
+	}
+	if (value instanceof Set) return tag('Set', [...value].map(toJSONValue));
+	if (Array.isArray(value)) return value.map(toJSONValue);
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJSONValue(v)]));
+	}
+	return value;
+}
+
+/** Restores the values tagged by `toJSONValue`; untagged JSON is returned as is. */
+export function fromJSONValue(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(fromJSONValue);
+	if (typeof value !== 'object' || value === null) return value;
+
+	const record = value as Record<string, unknown>;
+	switch (record[TYPE_TAG] as TypeName | undefined) {
+		case 'undefined':
+			return undefined;
+		case 'bigint':
+			return BigInt(record.value as string);
+		case 'Date':
+			return new Date((record.value as string | null) ?? NaN);
+		case 'Map':
+			return new Map(
+				(record.value as [unknown, unknown][]).map(([k, v]) => [fromJSONValue(k), fromJSONValue(v)])
+			);
+		case 'Set':
+			return new Set((record.value as unknown[]).map(fromJSONValue));
+	}
+	return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, fromJSONValue(v)]));
+}
@@ -0,0 +1,234 @@
+import { createTabId } from './conflict.js';
+
+export interface LeaderElectionOptions {
+	/** States sharing a name share one leader tab (default: one per storage and key). */
+	name?: string;
+	/** Heartbeat interval of the leader in browsers without the Web Locks API (default: 1000). */
+	heartbeatMs?: number;
+	/** Time a follower waits for the leader to persist a forwarded change before persisting it itself (default: 5000). */
+	forwardTimeoutMs?: number;
+}
+
+/** A change a follower hands to the leader tab, which persists it. */
+export type ForwardedChange = { value: unknown } | { remove: true };
+
+type ElectionMessage =
+	| { type: 'who' }
+	| { type: 'leader'; id: string }
+	| { type: 'resign'; id: string }
+	| { type: 'forward'; from: string; key: string; change: ForwardedChange }
+	| { type: 'written'; to: string; key: string }
+	| { type: 'unhandled'; to: string; key: string };
+
+/** A state taking part in the election of its tab. */
+export interface ElectionMember {
+	key(): string;
+	/** Persists a change forwarded by a follower, called in the leader tab; rejects when the write failed. */
+	receive(change: ForwardedChange): Promise<void>;
+	/** Called when the leader changed, so that a change not confirmed yet can be sent again. */
+	leaderChanged(isLeader: boolean): void;
+	/**
+	 * Called in a follower once the leader persisted the changes it forwarded, or with `false`
+	 * when the leader did not persist them in time and this tab has to.
+	 */
+	settled(persisted: boolean): void;
+}
+
+export interface ElectionMembership {
+	readonly isLeader: boolean;
+	/** Sends a change to the leader; `false` when this tab leads or no leader is known. */
+	forward(key: string, change: ForwardedChange): boolean;
+	leave(): void;
+}
+
+interface Election {
+	members: Set<ElectionMember>;
+	readonly isLeader: boolean;
+	forward(key: string, change: ForwardedChange): boolean;
+	close(): void;
+}
+
+// All states of a tab share the election of their name, so the tab leads for all of them
+const elections = new Map<string, Election>();
+
+/**
+ * Elects one tab per name with the Web Locks API: the tab holding the lock leads until it
+ * closes, then the next waiting tab takes over. Without Web Locks, the leader sends
+ * heartbeats and followers claim leadership when they stop; concurrent claims are
+ * settled in favor of the lowest tab id.
+ */
+function createElection(name: string, heartbeatMs: number, forwardTimeoutMs: number): Election {
+	const id = createTabId();
+	const members = new Set<ElectionMember>();
+	const channel = new BroadcastChannel(`svelte-persisted-state:leader:${name}`);
+	const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+
+	let leader: string | null = null;
+	let lastHeartbeat = 0;
+	let timer: ReturnType<typeof setInterval> | undefined;
+	let release: (() => void) | undefined;
+	const abort = new AbortController();
+	// Changes forwarded per key and not confirmed by the leader yet
+	const unconfirmed = new Map<string, { count: number; timer: ReturnType<typeof setTimeout> }>();
+
+	function post(message: ElectionMessage) {
+		channel.postMessage(message);
+	}
+
+	function setLeader(next: string | null) {
+		if (next === leader) return;
+		leader = next;
+		// Members send unconfirmed changes again or persist them, which starts over
+		unconfirmed.forEach(({ timer }) => clearTimeout(timer));
+		unconfirmed.clear();
+		members.forEach((member) => member.leaderChanged(next === id));
+	}
+
+	function settle(key: string, persisted: boolean) {
+		const pending = unconfirmed.get(key);
+		if (!pending) return;
+		if (persisted && --pending.count > 0) return;
+		clearTimeout(pending.timer);
+		unconfirmed.delete(key);
+		members.forEach((member) => {
+			if (member.key() === key) member.settled(persisted);
+		});
+	}
+
+	function lead() {
+		setLeader(id);
+		post({ type: 'leader', id });
+	}
+
+	function tick() {
+		if (leader === id) return post({ type: 'leader', id });
+		if (leader === null || Date.now() - lastHeartbeat > heartbeatMs * 3) lead();
+	}
+
+	function resign() {
+		if (leader === id) post({ type: 'resign', id });
+	}
+
+	channel.onmessage = (event: MessageEvent<ElectionMessage>) => {
+		const message = event.data;
+		switch (message.type) {
+			case 'who':
+				if (leader === id) post({ type: 'leader', id });
+				break;
+			case 'leader':
+				lastHeartbeat = Date.now();
+				// Two tabs claimed at once without Web Locks, the lower id keeps leading
+				if (!locks && leader === id && id < message.id) return post({ type: 'leader', id });
+				setLeader(message.id);
+				break;
+			case 'resign':
+				if (message.id !== leader) break;
+				setLeader(null);
+				if (!locks) tick();
+				break;
+			case 'forward': {
+				if (leader !== id) break;
+				const { from, key } = message;
+				const member = [...members].find((m) => m.key() === key);
+				if (!member) {
+					post({ type: 'unhandled', to: from, key });
+					break;
+				}
+				// A failed write is handed back to the follower, which persists the change itself
+				member
+					.receive(message.change)
+					.then(
+						() => post({ type: 'written', to: from, key }),
+						() => post({ type: 'unhandled', to: from, key })
+					)
+					.catch(() => {
+						// The election closed meanwhile
+					});
+				break;
+			}
+			case 'written':
+				if (message.to === id) settle(message.key, true);
+				break;
+			case 'unhandled':
+				// No state of the leader tab uses the key or its write failed
+				if (message.to === id) settle(message.key, false);
+				break;
+		}
+	};
+
+	if (locks) {
+		locks
+			.request(`svelte-persisted-state:leader:${name}`, { signal: abort.signal }, () => {
+				lead();
+				return new Promise<void>((resolve) => (release = resolve));
+			})
+			.catch(() => {
+				// Aborted when the election closes before getting the lock
+			});
+	} else {
+		timer = setInterval(tick, heartbeatMs);
+	}
+	post({ type: 'who' });
+	if (typeof window !== 'undefined') window.addEventListener('pagehide', resign);
+
+	return {
+		members,
+		get isLeader() {
+			return leader === id;
+		},
+		forward(key, change) {
+			if (leader === null || leader === id) return false;
+			try {
+				post({ type: 'forward', from: id, key, change });
+			} catch {
+				// Values that cannot be cloned are persisted by this tab
+				return false;
+			}
+			const pending = unconfirmed.get(key);
+			clearTimeout(pending?.timer);
+			unconfirmed.set(key, {
+				count: (pending?.count ?? 0) + 1,
+				timer: setTimeout(() => settle(key, false), forwardTimeoutMs)
+			});
+			return true;
+		},
+		close() {
+			resign();
+			unconfirmed.forEach(({ timer }) => clearTimeout(timer));
+			abort.abort();
+			release?.();
+			clearInterval(timer);
+			channel.close();
+			if (typeof window !== 'undefined') window.removeEventListener('pagehide', resign);
+		}
+	};
+}
+
+/** Joins the election of `name`, started by the first state of the tab joining it. */
+export function joinElection(
+	name: string,
+	options: LeaderElectionOptions,
+	member: ElectionMember
+): ElectionMembership {
+	const { heartbeatMs = 1000, forwardTimeoutMs = 5000 } = options;
+	let election = elections.get(name);
+	if (!election) {
+		election = createElection(name, heartbeatMs, forwardTimeoutMs);
+		elections.set(name, election);
+	}
+	election.members.add(member);
+	const joined = election;
+
+	return {
+		get isLeader() {
+			return joined.isLeader;
+		},
+		forward: (key, change) => joined.forward(key, change),
+		leave() {
+			joined.members.delete(member);
+			if (joined.members.size || elections.get(name) !== joined) return;
+			elections.delete(name);
+			joined.close();
+		}
+	};
+}
@@ -0,0 +1,41 @@
+import { isPartial, isPlainObject, type PartialOptions } from './paths.js';
+
+/**
+ * How a stored value is combined with `initialValue` when it is read:
+ * - `replace`: the stored value is used as is (default without `pick` / `omit`)
+ * - `shallow`: top-level properties of the stored value override those of `initialValue`
+ * - `deep`: plain objects are merged recursively (default with `pick` / `omit`)
+ * - a function receiving `initialValue` and the stored value, returning the state's value
+ */
+export type MergeStrategy<T> = 'replace' | 'shallow' | 'deep' | ((initialValue: T, stored: T) => T);
+
+export interface MergeOptions<T> extends PartialOptions<T> {
+	merge?: MergeStrategy<T>;
+}
+
+/**
+ * Recursively merges plain objects of `override` into `base`. Other values of `override`
+ * replace those of `base`, except `undefined`; neither argument is modified.
+ */
+export function deepMerge(base: unknown, override: unknown): unknown {
+	if (override === undefined) return base;
+	if (!isPlainObject(base) || !isPlainObject(override)) return override;
+
+	const merged: Record<string, unknown> = { ...base };
+	for (const [key, value] of Object.entries(override)) {
+		merged[key] = deepMerge(base[key], value);
+	}
+	return merged;
+}
+
+/** Combines a stored value with `initialValue`, before it is validated. */
+export function mergeStored<T>(stored: T, initialValue: T, options: MergeOptions<T>): T {
+	const { merge = isPartial(options) ? 'deep' : 'replace' } = options;
+
+	if (typeof merge === 'function') return merge(initialValue, stored);
+	if (merge === 'deep') return deepMerge(initialValue, stored) as T;
+	if (merge === 'shallow' && isPlainObject(initialValue) && isPlainObject(stored)) {
+		return { ...initialValue, ...stored };
+	}
+	return stored;
+}
@@ -0,0 +1,26 @@
+/**
+ * Map of migration steps keyed by the version they upgrade to. Migrating from
+ * version 1 to 3 runs `migrations[2]` and then `migrations[3]`; missing steps are skipped.
+ */
+export type Migrations = Record<number, (value: never) => unknown>;
+
+/** Values stored before `version` was configured are treated as version 0. */
+export const UNVERSIONED = 0;
+
+export function migrate<T>(
+	value: unknown,
+	fromVersion: number,
+	toVersion: number,
+	migrations: Migrations
+): T {
+	if (fromVersion > toVersion) {
+		throw new Error(`Stored version ${fromVersion} is newer than the current version ${toVersion}`);
+	}
+
+	let result = value;
+	for (let version = fromVersion + 1; version <= toVersion; version++) {
+		const step = migrations[version];
+		if (step) result = step(result as never);
+	}
+	return result as T;
+}
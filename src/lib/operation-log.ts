@@ -0,0 +1,234 @@
+import {
+	createAsyncCodec,
+	type AsyncCodec,
+	type AsyncCodecOptions,
+	type Decoded
+} from './codec.js';
+import { createTabId } from './conflict.js';
+import { isEqual } from './equal.js';
+import { iterateRecords } from './indexeddb-query.js';
+import { openStore, type IndexedDBOptions } from './indexeddb-storage.js';
+import { applyPatch, createPatch, type Operation } from './patch.js';
+
+export interface OperationLogOptions {
+	/** Number of logged changes after which the log is compacted into a snapshot (default: 100). */
+	compactEvery?: number;
+}
+
+/** Posted to other tabs instead of the whole value. */
+export interface PatchMessage {
+	key: string;
+	patch: Operation[];
+	/** Schema version of the data the operations apply to. */
+	version?: number;
+	/** Record holding the operations, deleted by whichever tab compacts the log next. */
+	entry?: string;
+	/** Expiry of the value after the change, renewed by every write. */
+	expiresAt?: number;
+}
+
+/** A logged change, applied only to stored data of the same schema version. */
+interface LogEntry {
+	version?: number;
+	patch: Operation[];
+	/** Expiry renewed by the change, taking over from the snapshot's. */
+	expiresAt?: number;
+}
+
+// Sequence numbers are padded so that the entries sort in the order they were written
+const SEQUENCE_DIGITS = 12;
+
+function logPrefix(key: string) {
+	return `${key}:oplog:`;
+}
+
+function logRange(key: string) {
+	return IDBKeyRange.bound(logPrefix(key), `${logPrefix(key)}\uffff`);
+}
+
+function sequenceOf(entry: string, key: string) {
+	return Number(entry.slice(logPrefix(key).length, logPrefix(key).length + SEQUENCE_DIGITS));
+}
+
+async function writeStore(options: IndexedDBOptions, write: (store: IDBObjectStore) => void) {
+	const store = await openStore(options, 'readwrite');
+
+	return new Promise<void>((resolve, reject) => {
+		write(store);
+
+		const { transaction } = store;
+		transaction.oncomplete = () => {
+			resolve();
+		};
+
+		transaction.onerror = () => {
+			reject(transaction.error);
+		};
+
+		transaction.onabort = () => {
+			reject(transaction.error);
+		};
+	});
+}
+
+/** Deletes the changes logged for `key`, which do not apply to a value written whole. */
+export function clearOperationLog(key: string, options: IndexedDBOptions): Promise<void> {
+	return writeStore(options, (store) => store.delete(logRange(key)));
+}
+
+/**
+ * Persists a value as a snapshot followed by a log of JSON Patch operations: the first
+ * change writes the snapshot, every later one appends a record with the operations that
+ * changed. Every `compactEvery` changes, the snapshot is rewritten and the entries it
+ * includes are deleted, in one transaction. Operations apply to the stored data, so
+ * `pick` / `omit`, `beforeWrite` and migrations hold for logged changes too. Log records
+ * are encoded like values, so they are compressed and encrypted too.
+ */
+export function createOperationLog<T>(
+	initialValue: T,
+	codec: AsyncCodec<T>,
+	indexedDBOptions: IndexedDBOptions,
+	options: Pick<AsyncCodecOptions<T>, 'version' | 'encryption' | 'compression'> &
+		OperationLogOptions
+) {
+	const { compactEvery = 100, version } = options;
+	const tab = createTabId();
+	const entryCodec = createAsyncCodec<LogEntry>(
+		{ patch: [] },
+		{ encryption: options.encryption, compression: options.compression }
+	);
+
+	// Stored data matching the snapshot and the log, which changes are diffed against
+	let base = codec.persisted(initialValue);
+	// Entries always follow a snapshot, so that they can be migrated with it
+	let hasSnapshot = false;
+	let sequence = 0;
+	// Entries whose operations are part of `base`, deleted on compaction
+	let entries: string[] = [];
+
+	function observe(key: string, entry: string) {
+		entries.push(entry);
+		sequence = Math.max(sequence, sequenceOf(entry, key));
+	}
+
+	/** Replaces the snapshot and deletes the entries logged so far, in one transaction. */
+	async function compact(key: string, encodeSnapshot: () => Promise<unknown>) {
+		// Entries received while compacting are not part of the snapshot and stay
+		const compacted = entries;
+		entries = [];
+		try {
+			const snapshot = await encodeSnapshot();
+			await writeStore(indexedDBOptions, (store) => {
+				store.put(snapshot, key);
+				compacted.forEach((entry) => store.delete(entry));
+			});
+			hasSnapshot = true;
+		} catch (error) {
+			entries = [...compacted, ...entries];
+			throw error;
+		}
+	}
+
+	return {
+		/**
+		 * Remembers a value known to match storage, such as a value written by another tab.
+		 * A value written whole replaces the log, which its writer deleted.
+		 */
+		sync(value: T, stored = true) {
+			base = codec.persisted(value);
+			hasSnapshot = stored;
+			entries = [];
+		},
+		/**
+		 * Decodes the snapshot `stored` with the logged operations applied, `null` when
+		 * nothing is stored. A snapshot of an older version is migrated and compacted.
+		 */
+		async read(key: string, stored: unknown): Promise<Decoded<T> | null> {
+			const records: [string, unknown][] = [];
+			await iterateRecords(indexedDBOptions, { range: logRange(key) }, (record, entry) => {
+				records.push([String(entry), record]);
+			});
+			const snapshot = stored === null || stored === undefined ? null : await codec.unpack(stored);
+			hasSnapshot = snapshot !== null;
+			if (!snapshot && !records.length) return null;
+
+			// Changes logged before the first compaction apply to the initial value
+			let meta = snapshot ? snapshot.meta : { version };
+			let data = snapshot ? snapshot.data : codec.persisted(initialValue);
+			entries = [];
+			sequence = 0;
+			for (const [entry, record] of records) {
+				const decoded = await entryCodec.decode(record);
+				// Entries of another version are left out, and deleted by the next compaction
+				if (decoded && decoded.value.version === meta.version) {
+					data = applyPatch(data, decoded.value.patch);
+					meta = { ...meta, expiresAt: decoded.value.expiresAt };
+				}
+				observe(key, entry);
+			}
+
+			const decoded = await codec.restore(data, meta);
+			if (!decoded || meta.version === version) {
+				base = data;
+				return decoded;
+			}
+			// Logged operations apply to data of the current version from now on
+			base = codec.persisted(decoded.value);
+			if (entries.length) {
+				await compact(key, () => codec.encode(decoded.value, meta.expiresAt, meta.stamp));
+			}
+			return decoded;
+		},
+		/**
+		 * Logs the operations turning the stored data into that of `value`, or writes the
+		 * snapshot encoded by `encodeSnapshot` when the log is due for compaction. Both renew
+		 * the expiry to `expiresAt`. Resolves with the message for other tabs, `null` when
+		 * nothing changed.
+		 */
+		async write(
+			key: string,
+			value: T,
+			expiresAt: number | undefined,
+			encodeSnapshot: (value: T) => Promise<unknown>
+		): Promise<PatchMessage | null> {
+			const patch = createPatch(base, codec.persisted(value));
+			if (!patch.length) return null;
+
+			// The base only moves once the change is stored, a failed one is part of the next diff
+			if (!hasSnapshot || entries.length + 1 >= compactEvery) {
+				await compact(key, () => encodeSnapshot(value));
+				base = applyPatch(base, patch);
+				return { key, patch, version, expiresAt };
+			}
+
+			const entry = `${logPrefix(key)}${String(sequence + 1).padStart(SEQUENCE_DIGITS, '0')}:${tab}`;
+			const record = await entryCodec.encode({ version, patch, expiresAt });
+			await writeStore(indexedDBOptions, (store) => store.put(record, entry));
+			base = applyPatch(base, patch);
+			observe(key, entry);
+			return { key, patch, version, entry, expiresAt };
+		},
+		/**
+		 * Applies operations received from another tab to the stored data and to the data of
+		 * `value`, returning the value the latter decodes to. `pending` tells whether `value`
+		 * has changes that are not stored yet. Operations of another version are ignored.
+		 */
+		async receive(message: PatchMessage, value: T): Promise<{ value: T; pending: boolean } | null> {
+			if (message.version !== version) return null;
+			base = applyPatch(base, message.patch);
+			hasSnapshot = true;
+			if (message.entry) observe(message.key, message.entry);
+
+			const data = applyPatch(codec.persisted(value), message.patch);
+			const decoded = await codec.restore(data, { version });
+			return decoded && { value: decoded.value, pending: !isEqual(data, base) };
+		},
+		/** Deletes every entry of the log; the snapshot is removed like any stored value. */
+		clear(key: string): Promise<void> {
+			entries = [];
+			base = codec.persisted(initialValue);
+			hasSnapshot = false;
+			return clearOperationLog(key, indexedDBOptions);
+		}
+	};
+}
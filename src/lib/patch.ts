@@ -0,0 +1,96 @@
+import { isEqual } from './equal.js';
+import { isPlainObject } from './paths.js';
+
+/** A JSON Patch (RFC 6902) operation; `path` is a JSON Pointer, `''` being the whole value. */
+export type Operation =
+	| { op: 'add'; path: string; value: unknown }
+	| { op: 'remove'; path: string }
+	| { op: 'replace'; path: string; value: unknown };
+
+function escape(token: string) {
+	return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescape(token: string) {
+	return token.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Operations turning `before` into `after`. Plain objects and arrays are compared property
+ * by property and index by index; other values, such as dates or maps, are replaced whole.
+ */
+export function createPatch(before: unknown, after: unknown, path = ''): Operation[] {
+	if (isEqual(before, after)) return [];
+
+	if (Array.isArray(before) && Array.isArray(after)) {
+		const common = Math.min(before.length, after.length);
+		const operations: Operation[] = [];
+		for (let index = 0; index < common; index++) {
+			operations.push(...createPatch(before[index], after[index], `${path}/${index}`));
+		}
+		for (let index = common; index < after.length; index++) {
+			operations.push({ op: 'add', path: `${path}/${index}`, value: after[index] });
+		}
+		// Removed from the end, so that the indexes of the remaining items do not shift
+		for (let index = before.length - 1; index >= common; index--) {
+			operations.push({ op: 'remove', path: `${path}/${index}` });
+		}
+		return operations;
+	}
+
+	if (isPlainObject(before) && isPlainObject(after)) {
+		const operations: Operation[] = [];
+		for (const key of Object.keys(before)) {
+			if (!(key in after)) operations.push({ op: 'remove', path: `${path}/${escape(key)}` });
+		}
+		for (const [key, value] of Object.entries(after)) {
+			const target = `${path}/${escape(key)}`;
+			if (key in before) {
+				operations.push(...createPatch(before[key], value, target));
+			} else {
+				operations.push({ op: 'add', path: target, value });
+			}
+		}
+		return operations;
+	}
+
+	return [{ op: 'replace', path, value: after }];
+}
+
+function applyAt(target: unknown, tokens: string[], operation: Operation): unknown {
+	if (!tokens.length) return operation.op === 'remove' ? undefined : operation.value;
+	const [token, ...rest] = tokens;
+
+	if (Array.isArray(target)) {
+		const copy = [...target];
+		const index = token === '-' ? copy.length : Number(token);
+		if (rest.length) {
+			copy[index] = applyAt(copy[index], rest, operation);
+		} else if (operation.op === 'add') {
+			copy.splice(index, 0, operation.value);
+		} else if (operation.op === 'remove') {
+			copy.splice(index, 1);
+		} else {
+			copy[index] = operation.value;
+		}
+		return copy;
+	}
+
+	const copy: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+	if (rest.length) {
+		copy[token] = applyAt(copy[token], rest, operation);
+	} else if (operation.op === 'remove') {
+		delete copy[token];
+	} else {
+		copy[token] = operation.value;
+	}
+	return copy;
+}
+
+/** Applies operations to a copy of `value`; only the objects along their paths are copied. */
+export function applyPatch<T>(value: T, operations: Operation[]): T {
+	return operations.reduce<unknown>((result, operation) => {
+		const tokens = operation.path === '' ? [] : operation.path.slice(1).split('/').map(unescape);
+		return applyAt(result, tokens, operation);
+	}, value) as T;
+}
@@ -0,0 +1,75 @@
+type Leaf =
+	| Date
+	| Map<unknown, unknown>
+	| Set<unknown>
+	| readonly unknown[]
+	| ((...args: never[]) => unknown);
+
+/**
+ * Dot paths to the properties of `T`, e.g. `'theme' | 'table' | 'table.sortOrder'`.
+ * Arrays, dates, maps and sets are addressed as a whole. Nesting is followed 6 levels deep.
+ */
+export type Path<T, Depth extends unknown[] = []> = Depth['length'] extends 6
+	? never
+	: T extends Leaf
+		? never
+		: T extends object
+			? {
+					[K in keyof T & string]: K | `${K}.${Path<NonNullable<T[K]>, [...Depth, unknown]>}`;
+				}[keyof T & string]
+			: never;
+
+export interface PartialOptions<T> {
+	/** Only these paths are persisted; the rest comes from `initialValue` on hydrate. */
+	pick?: Path<T>[];
+	/** These paths are not persisted and come from `initialValue` on hydrate. */
+	omit?: Path<T>[];
+}
+
+type Dict = Record<string, unknown>;
+
+export function isPlainObject(value: unknown): value is Dict {
+	if (typeof value !== 'object' || value === null) return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+function pickPath(source: unknown, target: Dict, [head, ...rest]: string[]) {
+	if (!isPlainObject(source) || !(head in source)) return;
+	if (rest.length === 0) {
+		target[head] = source[head];
+		return;
+	}
+	if (!isPlainObject(target[head])) target[head] = {};
+	pickPath(source[head], target[head] as Dict, rest);
+}
+
+function omitPath(source: unknown, [head, ...rest]: string[]): unknown {
+	if (!isPlainObject(source) || !(head in source)) return source;
+	// Objects along the path are copied, the value being written is left untouched
+	const copy = { ...source };
+	if (rest.length === 0) {
+		delete copy[head];
+	} else {
+		copy[head] = omitPath(source[head], rest);
+	}
+	return copy;
+}
+
+/** The part of `value` to persist according to `pick` and `omit`. */
+export function selectPaths<T>(value: T, { pick, omit }: PartialOptions<T>): unknown {
+	let selected: unknown = value;
+	if (pick) {
+		const picked: Dict = {};
+		pick.forEach((path) => pickPath(value, picked, path.split('.')));
+		selected = picked;
+	}
+	omit?.forEach((path) => {
+		selected = omitPath(selected, path.split('.'));
+	});
+	return selected;
+}
+
+export function isPartial<T>({ pick, omit }: PartialOptions<T>): boolean {
+	return pick !== undefined || omit !== undefined;
+}
@@ -0,0 +1,117 @@
+import { untrack } from 'svelte';
+import { collectionChannelName, collectionDB } from './collection.svelte.js';
+import { queryRecords, type IndexedDBQuery } from './indexeddb-query.js';
+import type { IndexedDBOptions } from './indexeddb-storage.js';
+
+export interface PersistedQueryOptions {
+	/** Name of the `persistedCollection` whose items are queried. */
+	collection?: string;
+	/** Store to query; with `collection`, overrides the collection's defaults like there. */
+	indexedDB?: IndexedDBOptions;
+	onError?: (error: unknown) => void;
+}
+
+export interface PersistedQuery<T> {
+	readonly current: T[];
+	readonly isLoading: boolean;
+	/** Resolves with the results of the latest run. */
+	readonly ready: Promise<T[]>;
+	/** Runs the query again, e.g. after writing to the store directly. */
+	refresh(): Promise<T[]>;
+}
+
+/**
+ * Reactive results of an IndexedDB query. A query given as a function runs again when
+ * its reactive dependencies change, and every query runs again when a `persistedCollection`
+ * of the same store writes, in any tab.
+ */
+export function persistedQuery<T>(
+	query: IndexedDBQuery | (() => IndexedDBQuery),
+	options: PersistedQueryOptions = {}
+): PersistedQuery<T> {
+	const { collection, onError = console.error } = options;
+	const indexedDBOptions =
+		collection === undefined
+			? (options.indexedDB ?? {})
+			: collectionDB(collection, options.indexedDB);
+
+	const browser = typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+	let currentQuery = typeof query === 'function' ? query() : query;
+	let results = $state<T[]>([]);
+	let isLoading = $state(browser);
+	// Incremented on every run, so that results arriving out of order are dropped
+	let runs = 0;
+
+	async function run(): Promise<T[]> {
+		const id = ++runs;
+		if (!browser) {
+			isLoading = false;
+			return results;
+		}
+
+		isLoading = true;
+		try {
+			const values = await queryRecords<T>(indexedDBOptions, currentQuery);
+			if (id !== runs) return values;
+			results = values;
+			isLoading = false;
+			return values;
+		} catch (error) {
+			onError(error);
+			if (id === runs) isLoading = false;
+			throw error;
+		}
+	}
+
+	function refresh() {
+		ready = run();
+		ready.catch(() => {
+			// Reported through onError
+		});
+		return ready;
+	}
+
+	let ready = run();
+	ready.catch(() => {
+		// Reported through onError
+	});
+
+	const channel =
+		browser && typeof BroadcastChannel !== 'undefined'
+			? new BroadcastChannel(collectionChannelName(indexedDBOptions))
+			: null;
+	if (channel) channel.onmessage = () => refresh();
+
+	$effect.root(() => {
+		if (typeof query === 'function') {
+			let isFirstRun = true;
+
+			$effect(() => {
+				const next = query();
+				if (isFirstRun) {
+					isFirstRun = false;
+					return;
+				}
+				currentQuery = next;
+				untrack(refresh);
+			});
+		}
+
+		return () => {
+			channel?.close();
+		};
+	});
+
+	return {
+		get current() {
+			return results;
+		},
+		get isLoading() {
+			return isLoading;
+		},
+		get ready() {
+			return ready;
+		},
+		refresh
+	};
+}
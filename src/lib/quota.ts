@@ -0,0 +1,174 @@
+import type { AsyncStorageAdapter } from './async-storage-adapters.js';
+import { decompressSync } from './compression.js';
+import { decodeEnvelope } from './envelope.js';
+import { isExpired } from './expiry.js';
+import { getStorage, type StorageAdapter, type StorageType } from './storage-adapters.js';
+
+export type EvictionStrategy = 'expired' | 'lru';
+
+/** Stored in place of a value moved to `fallbackStorage`, so that only those keys are looked up there. */
+export const FALLBACK_MARKER = 'fallback:v1';
+
+export interface QuotaOptions {
+	/** Called when a value could not be stored because the storage is full (default: onWriteError). */
+	onQuotaExceeded?: (error: unknown) => void;
+	/**
+	 * Ways to free space when the storage is full, tried in order until the write fits.
+	 * 'expired' drops expired entries, 'lru' drops the least recently used keys of `namespace`.
+	 */
+	evict?: EvictionStrategy[];
+	/** Keys sharing a namespace are evicted together by the 'lru' strategy (default: 'default'). */
+	namespace?: string;
+	/** Storage receiving values that still do not fit, e.g. `indexedDBAdapter()`. */
+	fallbackStorage?: AsyncStorageAdapter;
+}
+
+export interface StorageUsage {
+	/** Approximate size in bytes of each entry, key included. */
+	keys: Record<string, number>;
+	/** Bytes used by the whole origin, where `navigator.storage.estimate()` is available. */
+	usage?: number;
+	/** Bytes available to the whole origin, where `navigator.storage.estimate()` is available. */
+	quota?: number;
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+	if (!(error instanceof DOMException)) return false;
+	// Older browsers only report the legacy codes, Firefox uses its own name
+	return (
+		error.name === 'QuotaExceededError' ||
+		error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+		error.code === 22 ||
+		error.code === 1014
+	);
+}
+
+/** Keeps the last access time of every key in a namespace, in the storage itself. */
+function createLruRegistry(adapter: StorageAdapter, namespace: string) {
+	const registryKey = `svelte-persisted-state:lru:${namespace}`;
+
+	function load(): Record<string, number> {
+		try {
+			return JSON.parse(adapter.getItem(registryKey) ?? '{}');
+		} catch {
+			return {};
+		}
+	}
+
+	function save(entries: Record<string, number>) {
+		try {
+			adapter.setItem(registryKey, JSON.stringify(entries));
+		} catch {
+			// The registry is best effort, a full storage must not fail the actual write
+		}
+	}
+
+	return {
+		touch(key: string) {
+			save({ ...load(), [key]: Date.now() });
+		},
+		forget(key: string) {
+			const entries = load();
+			delete entries[key];
+			save(entries);
+		},
+		/** Removes the least recently used key other than `keep`; false when none is left. */
+		evictOldest(keep: string): boolean {
+			const entries = load();
+			const [oldest] = Object.keys(entries)
+				.filter((key) => key !== keep)
+				.sort((a, b) => entries[a] - entries[b]);
+			if (oldest === undefined) return false;
+
+			adapter.removeItem(oldest);
+			delete entries[oldest];
+			save(entries);
+			return true;
+		}
+	};
+}
+
+/** Removes entries whose expiry has passed; encrypted entries cannot be inspected and are kept. */
+function evictExpired(adapter: StorageAdapter) {
+	for (const key of adapter.keys?.() ?? []) {
+		try {
+			const raw = adapter.getItem(key);
+			if (raw && isExpired(decodeEnvelope(decompressSync(raw)).meta.expiresAt)) {
+				adapter.removeItem(key);
+			}
+		} catch {
+			// Not one of ours
+		}
+	}
+}
+
+/**
+ * Frees space according to `evict` when a write exceeds the quota, then retries it.
+ * The original error is rethrown when the value still does not fit.
+ */
+export function withEviction(adapter: StorageAdapter, options: QuotaOptions): StorageAdapter {
+	const { evict = [], namespace = 'default' } = options;
+	const registry = evict.includes('lru') ? createLruRegistry(adapter, namespace) : null;
+
+	function tryWrite(key: string, value: string): boolean {
+		try {
+			adapter.setItem(key, value);
+			return true;
+		} catch (error) {
+			if (isQuotaExceededError(error)) return false;
+			throw error;
+		}
+	}
+
+	function writeWithEviction(key: string, value: string, error: unknown) {
+		for (const strategy of evict) {
+			if (strategy === 'expired') {
+				evictExpired(adapter);
+				if (tryWrite(key, value)) return;
+			} else {
+				while (registry?.evictOldest(key)) {
+					if (tryWrite(key, value)) return;
+				}
+			}
+		}
+		throw error;
+	}
+
+	return {
+		...adapter,
+		getItem(key) {
+			const value = adapter.getItem(key);
+			if (value !== null) registry?.touch(key);
+			return value;
+		},
+		setItem(key, value) {
+			try {
+				adapter.setItem(key, value);
+			} catch (error) {
+				if (!isQuotaExceededError(error)) throw error;
+				writeWithEviction(key, value, error);
+			}
+			registry?.touch(key);
+		},
+		removeItem(key) {
+			adapter.removeItem(key);
+			registry?.forget(key);
+		}
+	};
+}
+
+/** Reports the size of each entry of a storage, along with the origin-wide usage estimate. */
+export async function getStorageUsage(
+	storage: StorageType | StorageAdapter = 'local'
+): Promise<StorageUsage> {
+	const adapter = getStorage(storage);
+	const keys: Record<string, number> = {};
+	for (const key of adapter.keys?.() ?? []) {
+		// Web storage keeps strings as UTF-16
+		keys[key] = (key.length + (adapter.getItem(key)?.length ?? 0)) * 2;
+	}
+
+	if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return { keys };
+	const { usage, quota } = await navigator.storage.estimate();
+	return { keys, usage, quota };
+}
@@ -0,0 +1,175 @@
+import { indexedDBAdapter, type AsyncStorageAdapter } from './async-storage-adapters.js';
+import type { IndexedDBOptions } from './indexeddb-storage.js';
+import type { LeaderElectionOptions } from './leader.js';
+import { getStorage, type StorageAdapter } from './storage-adapters.js';
+import {
+	persistedState,
+	persistedStateAsync,
+	type AsyncOptions,
+	type AsyncPersistedState,
+	type PersistedState,
+	type PersistedStateOptions
+} from './index.svelte.js';
+
+/** Options that depend on the type of a single value and cannot be shared by a scope. */
+type ValueOptions =
+	| 'serializer'
+	| 'beforeRead'
+	| 'beforeWrite'
+	| 'pick'
+	| 'omit'
+	| 'version'
+	| 'migrations'
+	| 'validate'
+	| 'onValidationError'
+	| 'serverValue'
+	| 'onHydrated'
+	| 'resolveConflict'
+	| 'onRemoteChange';
+
+export interface PersistedStateScopeOptions
+	extends Omit<PersistedStateOptions<unknown>, ValueOptions> {
+	/** Prepended to the key of every state of the scope, also the default LRU `namespace`. */
+	prefix: string;
+	/** Placed between the prefix, the partition and the key (default: ':'). */
+	separator?: string;
+	/**
+	 * Partition the keys belong to, e.g. the id of the signed in user. Reactive: when it
+	 * changes, every state of the scope re-hydrates from the keys of the new partition.
+	 */
+	partition?: () => string | null | undefined;
+	/** Storage of the `persistedStateAsync` states of the scope (default: IndexedDB). */
+	asyncStorage?: AsyncStorageAdapter;
+	indexedDB?: IndexedDBOptions;
+	/** Leader election of the `persistedStateAsync` states; `true` elects one leader for the scope. */
+	leaderElection?: boolean | LeaderElectionOptions;
+}
+
+export interface PersistedStateScope {
+	readonly prefix: string;
+	persistedState<T>(
+		key: string,
+		initialValue: T,
+		options?: PersistedStateOptions<T>
+	): PersistedState<T>;
+	persistedStateAsync<T>(
+		key: string,
+		initialValue: T,
+		options?: AsyncOptions<T>
+	): AsyncPersistedState<T>;
+	/** Keys of the states created through the scope, without the prefix. */
+	keys(): string[];
+	/** Deletes the stored entries of all states and resets them without persisting. */
+	clearAll(): Promise<void>;
+	/** Resets all states to their initial value, which is persisted. */
+	resetAll(): void;
+	/** Current values keyed by key without the prefix, once every state is hydrated. */
+	export(): Promise<Record<string, unknown>>;
+	/** Deletes every stored entry of a partition other than the current one. */
+	purgePartition(partition: string): Promise<void>;
+}
+
+/** The members a scope needs, common to sync and async states. */
+interface ScopedState {
+	readonly current: unknown;
+	readonly ready: Promise<unknown>;
+	reset(): void;
+	remove(): void | Promise<void>;
+}
+
+/**
+ * Groups persisted states under a key prefix with shared default options, and keeps
+ * track of them so they can be listed, exported or wiped together (e.g. on logout).
+ */
+export function createPersistedStateScope(
+	options: PersistedStateScopeOptions
+): PersistedStateScope {
+	const {
+		prefix,
+		separator = ':',
+		partition,
+		asyncStorage,
+		indexedDB,
+		leaderElection,
+		...rest
+	} = options;
+	const shared = { namespace: prefix, ...rest };
+
+	// Several states may be created for the same key, e.g. by separate components
+	const registry = new Map<string, Set<ScopedState>>();
+	// Storages the states write to, searched when purging a partition
+	const storages = new Set<StorageAdapter | AsyncStorageAdapter>();
+
+	function register<S extends ScopedState>(key: string, state: S): S {
+		if (!registry.has(key)) registry.set(key, new Set());
+		registry.get(key)!.add(state);
+		return state;
+	}
+
+	function states() {
+		return [...registry.values()].flatMap((set) => [...set]);
+	}
+
+	function partitionPrefix(id: string | null | undefined) {
+		return id ? `${prefix}${separator}${id}${separator}` : `${prefix}${separator}`;
+	}
+
+	function scopedKey(key: string) {
+		return partition ? () => partitionPrefix(partition()) + key : partitionPrefix(null) + key;
+	}
+
+	return {
+		prefix,
+		persistedState(key, initialValue, stateOptions = {}) {
+			const merged = { ...shared, ...stateOptions } as PersistedStateOptions<typeof initialValue>;
+			const { storage = 'local', cookieOptions, fallbackStorage } = merged;
+			storages.add(getStorage(storage, { cookieOptions }));
+			if (fallbackStorage) storages.add(fallbackStorage);
+
+			return register(key, persistedState(scopedKey(key), initialValue, merged));
+		},
+		persistedStateAsync(key, initialValue, stateOptions = {}) {
+			// Options only sync states understand, such as `cookieOptions`, are ignored
+			const merged = {
+				...shared,
+				storage: asyncStorage,
+				indexedDB,
+				leaderElection: leaderElection === true ? { name: prefix } : leaderElection,
+				...stateOptions
+			} as AsyncOptions<typeof initialValue>;
+			storages.add(merged.storage ?? indexedDBAdapter(merged.indexedDB));
+
+			return register(key, persistedStateAsync(scopedKey(key), initialValue, merged));
+		},
+		keys() {
+			return [...registry.keys()];
+		},
+		async clearAll() {
+			await Promise.all(states().map((state) => state.remove()));
+		},
+		resetAll() {
+			states().forEach((state) => state.reset());
+		},
+		async export() {
+			const entries = await Promise.all(
+				[...registry].map(async ([key, set]) => {
+					// The most recently created state holds the latest value
+					const state = [...set].at(-1)!;
+					await state.ready.catch(() => undefined);
+					return [key, $state.snapshot(state.current)] as const;
+				})
+			);
+			return Object.fromEntries(entries);
+		},
+		async purgePartition(id) {
+			const keyPrefix = partitionPrefix(id);
+			for (const storage of storages) {
+				// Keys of states not created in this session are only found by listing the storage
+				const listed = (await storage.keys?.()) ?? [];
+				const known = [...registry.keys()].map((key) => keyPrefix + key);
+				const keys = new Set([...listed.filter((key) => key.startsWith(keyPrefix)), ...known]);
+				for (const key of keys) await storage.removeItem(key);
+			}
+		}
+	};
+}
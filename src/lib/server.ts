@@ -0,0 +1,34 @@
+import { createCodec, type CodecOptions } from './codec.js';
+
+/** The part of SvelteKit's `event.cookies` needed to read persisted values. */
+export interface ServerCookies {
+	get(name: string): string | undefined;
+}
+
+export interface ServerCookieOptions<T> extends CodecOptions<T> {
+	onParseError?: (error: unknown) => void;
+}
+
+/**
+ * Reads a cookie-backed persisted value on the server, applying the same serializer,
+ * migrations, validation, expiry and `beforeRead` as `persistedState`. Pass the result to the
+ * client-side state as `serverValue` so the SSR output matches the hydrated page.
+ */
+export function readPersistedCookie<T>(
+	cookies: ServerCookies,
+	key: string,
+	initialValue: T,
+	options: ServerCookieOptions<T> = {}
+): T {
+	const { onParseError = console.error } = options;
+
+	try {
+		// SvelteKit already URI-decodes cookie values
+		const item = cookies.get(key);
+		const decoded = item ? createCodec(initialValue, options).decode(item) : null;
+		return decoded ? decoded.value : initialValue;
+	} catch (error) {
+		onParseError(error);
+		return initialValue;
+	}
+}
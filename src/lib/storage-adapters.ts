@@ -0,0 +1,262 @@
+export type StorageType = 'local' | 'session' | 'cookie';
+
+/**
+ * Synchronous key/value backend used by `persistedState`. Implement it to persist
+ * to chrome.storage, Capacitor Preferences, an in-memory store, an encrypted store, etc.
+ */
+export interface StorageAdapter {
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+	/** Lists the stored keys; used to evict expired entries when the storage is full. */
+	keys?(): string[];
+	/**
+	 * Notifies about changes made outside of this instance (other tabs, native side...).
+	 * `newValue` is `null` when the entry was removed. Returns an unsubscribe function.
+	 */
+	subscribe?(key: string, callback: (newValue: string | null) => void): () => void;
+}
+
+export interface CookieOptions {
+	expireDays?: number;
+	maxAge?: number;
+	path?: string;
+	domain?: string;
+	secure?: boolean;
+	sameSite?: 'Strict' | 'Lax' | 'None';
+	httpOnly?: boolean;
+}
+
+function getCookie(name: string): string | null {
+	const match = document.cookie.match(new RegExp('(^| )' + name + '=([^;]+)'));
+	return match ? decodeURIComponent(match[2]) : null;
+}
+
+function getCookieNames(): string[] {
+	return document.cookie
+		.split(';')
+		.map((cookie) => cookie.split('=')[0].trim())
+		.filter(Boolean);
+}
+
+function setCookie(name: string, value: string, options: CookieOptions = {}) {
+	const {
+		expireDays = 365,
+		maxAge,
+		path = '/',
+		domain,
+		secure = false,
+		sameSite = 'Lax',
+		httpOnly = false
+	} = options;
+
+	let cookieString = `${name}=${encodeURIComponent(value)}`;
+	cookieString += `; path=${path}`;
+
+	// Use max-age if specified, otherwise use expires
+	if (maxAge !== undefined) {
+		cookieString += `; max-age=${maxAge}`;
+	} else {
+		const expires = new Date(Date.now() + expireDays * 864e5).toUTCString();
+		cookieString += `; expires=${expires}`;
+	}
+
+	if (domain) {
+		cookieString += `; domain=${domain}`;
+	}
+
+	if (secure) {
+		cookieString += `; secure`;
+	}
+
+	cookieString += `; samesite=${sameSite}`;
+
+	if (httpOnly) {
+		cookieString += `; httponly`;
+	}
+
+	document.cookie = cookieString;
+}
+
+function removeCookie(name: string, options: CookieOptions = {}) {
+	// The browser only drops the cookie when path and domain match the ones it was set with
+	setCookie(name, '', { ...options, maxAge: 0 });
+}
+
+function webStorageAdapter(getArea: () => Storage, notifiesOtherTabs: boolean): StorageAdapter {
+	const adapter: StorageAdapter = {
+		getItem: (k) => getArea().getItem(k),
+		setItem: (k, v) => getArea().setItem(k, v),
+		removeItem: (k) => getArea().removeItem(k),
+		keys() {
+			const area = getArea();
+			return Array.from({ length: area.length }, (_, i) => area.key(i)!);
+		}
+	};
+
+	if (notifiesOtherTabs) {
+		adapter.subscribe = (key, callback) => {
+			const listener = (event: StorageEvent) => {
+				if (event.key === key && event.storageArea === getArea()) {
+					callback(event.newValue);
+				}
+			};
+			window.addEventListener('storage', listener);
+			return () => window.removeEventListener('storage', listener);
+		};
+	}
+
+	return adapter;
+}
+
+interface BroadcastMessage {
+	key: string;
+	value: string | null;
+	group?: string;
+}
+
+/**
+ * Posts every write on a BroadcastChannel and reports the writes of other instances,
+ * for backends that do not emit `storage` events. Only instances reporting the same
+ * `group` see each other's writes.
+ */
+function withBroadcast(
+	adapter: StorageAdapter,
+	channelName: string,
+	group?: () => string
+): StorageAdapter {
+	let channel: BroadcastChannel | null = null;
+	const listeners = new Set<(message: BroadcastMessage) => void>();
+	// Last value seen per key, so a change reported by several sources is applied once
+	const known = new Map<string, string | null>();
+
+	function getChannel() {
+		if (!channel && typeof BroadcastChannel !== 'undefined') {
+			channel = new BroadcastChannel(channelName);
+			channel.onmessage = (event: MessageEvent<BroadcastMessage>) => {
+				if (group && event.data.group !== group()) return;
+				listeners.forEach((listener) => listener(event.data));
+			};
+		}
+		return channel;
+	}
+
+	function post(key: string, value: string | null) {
+		known.set(key, value);
+		getChannel()?.postMessage({ key, value, group: group?.() } satisfies BroadcastMessage);
+	}
+
+	return {
+		getItem: (k) => adapter.getItem(k),
+		setItem(k, v) {
+			adapter.setItem(k, v);
+			post(k, v);
+		},
+		removeItem(k) {
+			adapter.removeItem(k);
+			post(k, null);
+		},
+		keys: () => adapter.keys?.() ?? [],
+		subscribe(key, callback) {
+			const notify = (value: string | null) => {
+				if (known.has(key) && known.get(key) === value) return;
+				known.set(key, value);
+				callback(value);
+			};
+			const listener = (message: BroadcastMessage) => {
+				if (message.key === key) notify(message.value);
+			};
+
+			listeners.add(listener);
+			getChannel();
+			const unsubscribe = adapter.subscribe?.(key, notify);
+
+			return () => {
+				listeners.delete(listener);
+				unsubscribe?.();
+				if (listeners.size === 0) {
+					channel?.close();
+					channel = null;
+				}
+			};
+		}
+	};
+}
+
+interface CookieChangeEventLike extends Event {
+	changed: ReadonlyArray<{ name: string; value?: string }>;
+	deleted: ReadonlyArray<{ name: string }>;
+}
+
+/** Reports cookie changes through the Cookie Store API where the browser supports it. */
+function subscribeCookieStore(key: string, callback: (newValue: string | null) => void) {
+	const { cookieStore } = globalThis as unknown as { cookieStore?: EventTarget };
+	if (!cookieStore) return () => {};
+
+	const listener = (event: Event) => {
+		const { changed, deleted } = event as CookieChangeEventLike;
+		for (const cookie of changed) {
+			if (cookie.name === key) {
+				callback(cookie.value ? decodeURIComponent(cookie.value) : null);
+			}
+		}
+		if (deleted.some((cookie) => cookie.name === key)) callback(null);
+	};
+
+	cookieStore.addEventListener('change', listener);
+	return () => cookieStore.removeEventListener('change', listener);
+}
+
+const SESSION_GROUP_KEY = 'svelte-persisted-state:session-group';
+
+/**
+ * Identifies the windows sharing a session. Windows opened from a tab start with a
+ * copy of its sessionStorage, and therefore with the same id.
+ */
+function getSessionGroup(): string {
+	let group = sessionStorage.getItem(SESSION_GROUP_KEY);
+	if (!group) {
+		group = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+		sessionStorage.setItem(SESSION_GROUP_KEY, group);
+	}
+	return group;
+}
+
+export const localStorageAdapter: StorageAdapter = webStorageAdapter(() => localStorage, true);
+
+export const sessionStorageAdapter: StorageAdapter = webStorageAdapter(() => sessionStorage, false);
+
+/** sessionStorage adapter that keeps same-origin windows opened from the same tab in sync. */
+export function sessionWindowsStorageAdapter(): StorageAdapter {
+	return withBroadcast(sessionStorageAdapter, 'svelte-persisted-state:session', getSessionGroup);
+}
+
+export function cookieStorageAdapter(options: CookieOptions = {}): StorageAdapter {
+	return withBroadcast(
+		{
+			getItem: getCookie,
+			setItem: (k, v) => setCookie(k, v, options),
+			removeItem: (k) => removeCookie(k, options),
+			keys: getCookieNames,
+			subscribe: subscribeCookieStore
+		},
+		'svelte-persisted-state:cookie'
+	);
+}
+
+export interface GetStorageOptions {
+	cookieOptions?: CookieOptions;
+	syncSessionWindows?: boolean;
+}
+
+export function getStorage(
+	type: StorageType | StorageAdapter,
+	{ cookieOptions = {}, syncSessionWindows = false }: GetStorageOptions = {}
+): StorageAdapter {
+	if (typeof type === 'object') return type;
+	if (type === 'local') return localStorageAdapter;
+	if (type === 'session') {
+		return syncSessionWindows ? sessionWindowsStorageAdapter() : sessionStorageAdapter;
+	}
+	return cookieStorageAdapter(cookieOptions);
+}
@@ -0,0 +1,161 @@
+/**
+ * Minimal copy of the Standard Schema interface (https://standardschema.dev),
+ * implemented by Zod, Valibot, ArkType and others.
+ */
+export interface StandardSchemaV1<Output = unknown> {
+	readonly '~standard': {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown
+		) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+	};
+}
+
+export interface StandardSchemaIssue {
+	readonly message: string;
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+type StandardSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export type Validator<T> = ((value: unknown) => boolean) | StandardSchemaV1<T>;
+
+/**
+ * What to do with a stored value that fails validation:
+ * - `reset`: use the initial value (default)
+ * - `keep`: use the stored value anyway
+ * - `merge`: keep the valid top-level fields of the stored value on top of the initial value
+ */
+export type ValidationPolicy = 'reset' | 'keep' | 'merge';
+
+export interface ValidationOptions<T> {
+	validate?: Validator<T>;
+	validationPolicy?: ValidationPolicy;
+	/** Called for every invalid value; returning a value uses it instead of applying the policy. */
+	onValidationError?: (error: ValidationError) => T | void;
+}
+
+export class ValidationError extends Error {
+	readonly issues: ReadonlyArray<StandardSchemaIssue>;
+	readonly value: unknown;
+
+	constructor(issues: ReadonlyArray<StandardSchemaIssue>, value: unknown) {
+		super(`Stored value failed validation: ${issues.map((issue) => issue.message).join(', ')}`);
+		this.name = 'ValidationError';
+		this.issues = issues;
+		this.value = value;
+	}
+}
+
+function runValidator<T>(
+	validator: Validator<T>,
+	value: unknown
+): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>> {
+	if (typeof validator === 'function') {
+		return validator(value)
+			? { value: value as T }
+			: { issues: [{ message: 'Predicate returned false' }] };
+	}
+	return validator['~standard'].validate(value);
+}
+
+function ensureSync<T>(
+	result: StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>
+): StandardSchemaResult<T> {
+	if (result instanceof Promise) {
+		throw new Error('Asynchronous validators are only supported by persistedStateAsync');
+	}
+	return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidKeys(issues: ReadonlyArray<StandardSchemaIssue>): Set<PropertyKey> {
+	const keys = new Set<PropertyKey>();
+	for (const { path } of issues) {
+		const segment = path?.[0];
+		if (segment !== undefined) keys.add(typeof segment === 'object' ? segment.key : segment);
+	}
+	return keys;
+}
+
+/**
+ * Copies the fields of `value` onto `initialValue` that are not reported by an issue
+ * and share the type of their default, which is all a plain predicate can tell us.
+ */
+function mergeValidFields<T>(
+	value: unknown,
+	initialValue: T,
+	issues: ReadonlyArray<StandardSchemaIssue>
+): T {
+	if (!isPlainObject(value) || !isPlainObject(initialValue)) return initialValue;
+
+	const invalid = invalidKeys(issues);
+	const merged: Record<string, unknown> = { ...initialValue };
+	for (const [key, fallback] of Object.entries(initialValue)) {
+		if (!(key in value) || invalid.has(key)) continue;
+		const field = value[key];
+		if (typeof field === typeof fallback && Array.isArray(field) === Array.isArray(fallback)) {
+			merged[key] = field;
+		}
+	}
+	return merged as T;
+}
+
+function fallback<T>(
+	value: unknown,
+	issues: ReadonlyArray<StandardSchemaIssue>,
+	initialValue: T,
+	options: ValidationOptions<T>
+): { value: T; revalidate: boolean } {
+	const { validationPolicy = 'reset', onValidationError = console.error } = options;
+
+	const replacement = onValidationError(new ValidationError(issues, value));
+	if (replacement !== undefined) return { value: replacement, revalidate: false };
+
+	switch (validationPolicy) {
+		case 'keep':
+			return { value: value as T, revalidate: false };
+		case 'merge':
+			return { value: mergeValidFields(value, initialValue, issues), revalidate: true };
+		default:
+			return { value: initialValue, revalidate: false };
+	}
+}
+
+export function validateSync<T>(value: unknown, initialValue: T, options: ValidationOptions<T>): T {
+	const { validate } = options;
+	if (!validate) return value as T;
+
+	const result = ensureSync(runValidator(validate, value));
+	if (!result.issues) return result.value;
+
+	const recovered = fallback(value, result.issues, initialValue, options);
+	if (!recovered.revalidate) return recovered.value;
+
+	const merged = ensureSync(runValidator(validate, recovered.value));
+	return merged.issues ? initialValue : merged.value;
+}
+
+export async function validateAsync<T>(
+	value: unknown,
+	initialValue: T,
+	options: ValidationOptions<T>
+): Promise<T> {
+	const { validate } = options;
+	if (!validate) return value as T;
+
+	const result = await runValidator(validate, value);
+	if (!result.issues) return result.value;
+
+	const recovered = fallback(value, result.issues, initialValue, options);
+	if (!recovered.revalidate) return recovered.value;
+
+	const merged = await runValidator(validate, recovered.value);
+	return merged.issues ? initialValue : merged.value;
+}
@@ -0,0 +1,189 @@
+import type { AsyncStorageAdapter } from './async-storage-adapters.js';
+import {
+	compressStream,
+	decompressStream,
+	isStreamCompressed,
+	resolveCompression,
+	type CompressionOptions
+} from './compression.js';
+import { getItem, keys, removeItem, setItem, type IndexedDBOptions } from './indexeddb-storage.js';
+import { fromJSONValue, toJSONValue } from './json-value.js';
+
+/** What `persistedStateAsync` talks to: a worker, a shared worker or one end of a channel. */
+export type PersistenceWorker = Worker | SharedWorker | MessagePort;
+
+export interface WorkerStorageOptions {
+	/** Database of the worker; `upgrade` and `onBlocked` cannot be sent to it and are ignored. */
+	indexedDB?: IndexedDBOptions;
+	/** Values are compressed by the worker, before they are written. */
+	compression?: CompressionOptions | boolean;
+	/** Requests the worker has not answered after this many milliseconds fail (default: 10000). */
+	timeoutMs?: number;
+}
+
+type WorkerRequest = {
+	id: number;
+	indexedDB: IndexedDBOptions;
+	compression: Required<CompressionOptions> | null;
+} & (
+	| { type: 'get'; key: string }
+	| { type: 'set'; key: string; value: unknown }
+	| { type: 'remove'; key: string }
+	| { type: 'keys' }
+);
+
+type WorkerResponse = { id: number; value?: unknown } | { id: number; error: unknown };
+
+/** The parts of `MessagePort` and worker scopes used on both ends. */
+interface Port {
+	postMessage(message: unknown): void;
+	addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+	start?(): void;
+}
+
+// Ids are unique across adapters, since every adapter of a worker receives all responses
+let requests = 0;
+
+/** Options of the database the worker can receive, functions cannot be cloned. */
+function cloneable(options: IndexedDBOptions): IndexedDBOptions {
+	const { dbName, storeName, version, keyPath, autoIncrement, indexes } = options;
+	return { dbName, storeName, version, keyPath, autoIncrement, indexes };
+}
+
+/**
+ * Storage of `persistedStateAsync` running in a worker that calls `servePersistence`.
+ * Values are sent as structured clones; the worker compresses and writes them, so
+ * neither blocks the main thread.
+ */
+export function workerAdapter(
+	worker: PersistenceWorker,
+	options: WorkerStorageOptions = {}
+): AsyncStorageAdapter {
+	const port: Port = 'port' in worker ? worker.port : worker;
+	const indexedDB = cloneable(options.indexedDB ?? {});
+	const compression = resolveCompression(options.compression);
+	const { timeoutMs = 10000 } = options;
+	const pending = new Map<
+		number,
+		{ resolve(value: unknown): void; reject(error: unknown): void }
+	>();
+	// Set once the port closed, requests sent after that fail right away
+	let closed: Error | null = null;
+
+	port.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+		const request = pending.get(event.data?.id);
+		if (!request) return;
+		if ('error' in event.data) {
+			request.reject(event.data.error);
+		} else {
+			request.resolve(event.data.value);
+		}
+	});
+	port.start?.();
+
+	/** Rejects the requests waiting for an answer the worker will not send. */
+	function failPending(error: Error) {
+		pending.forEach((request) => request.reject(error));
+	}
+
+	// Errors in the worker and responses that cannot be deserialized lose the answers on their way
+	const workerEvents: EventTarget = worker;
+	const portEvents: EventTarget = 'port' in worker ? worker.port : worker;
+	workerEvents.addEventListener('error', (event) =>
+		failPending(
+			'error' in event && event.error instanceof Error
+				? event.error
+				: new Error('The persistence worker failed')
+		)
+	);
+	portEvents.addEventListener('messageerror', () =>
+		failPending(new Error('A response of the persistence worker could not be deserialized'))
+	);
+	portEvents.addEventListener('close', () => {
+		closed = new Error('The persistence worker is closed');
+		failPending(closed);
+	});
+
+	function send<R>(request: WorkerRequest): Promise<R> {
+		if (closed) return Promise.reject(closed);
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const answer = new Promise<unknown>((resolve, reject) => {
+			pending.set(request.id, { resolve, reject });
+			timer = setTimeout(
+				() => reject(new Error(`The persistence worker did not answer within ${timeoutMs}ms`)),
+				timeoutMs
+			);
+			// Values that cannot be cloned throw, which rejects the request
+			port.postMessage(request);
+		});
+		return answer.finally(() => {
+			clearTimeout(timer);
+			pending.delete(request.id);
+		}) as Promise<R>;
+	}
+
+	const base = () => ({ id: ++requests, indexedDB, compression });
+
+	return {
+		name: indexedDB.dbName ?? 'svelte-persisted-state',
+		getItem: (key) => send({ ...base(), type: 'get', key }),
+		setItem: (key, value) => send({ ...base(), type: 'set', key, value }),
+		removeItem: (key) => send({ ...base(), type: 'remove', key }),
+		keys: () => send({ ...base(), type: 'keys' })
+	};
+}
+
+async function handle(request: WorkerRequest): Promise<unknown> {
+	const { indexedDB, compression } = request;
+	switch (request.type) {
+		case 'get': {
+			const stored = await getItem(request.key, indexedDB);
+			return isStreamCompressed(stored)
+				? fromJSONValue(JSON.parse(await decompressStream(stored)))
+				: stored;
+		}
+		case 'set': {
+			let value = request.value;
+			if (compression) {
+				const json = JSON.stringify(toJSONValue(value));
+				const compressed = await compressStream(json, compression);
+				if (compressed !== json) value = compressed;
+			}
+			return setItem(request.key, value, indexedDB);
+		}
+		case 'remove':
+			return removeItem(request.key, indexedDB);
+		case 'keys':
+			return keys(indexedDB);
+	}
+}
+
+function listen(port: Port) {
+	port.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+		const { id } = event.data;
+		try {
+			port.postMessage({ id, value: await handle(event.data) } satisfies WorkerResponse);
+		} catch (error) {
+			port.postMessage({ id, error } satisfies WorkerResponse);
+		}
+	});
+	port.start?.();
+}
+
+/**
+ * Handles the requests of `workerAdapter` in a worker script. Inside a shared worker,
+ * every connecting page is served; `port` serves a single channel instead.
+ */
+export function servePersistence(port?: MessagePort): void {
+	if (port) return listen(port);
+
+	const scope = globalThis as unknown as Port & {
+		onconnect?: unknown;
+		addEventListener(type: 'connect', listener: (event: MessageEvent) => void): void;
+	};
+	if ('onconnect' in scope) {
+		scope.addEventListener('connect', (event: MessageEvent) => listen(event.ports[0]));
+	} else {
+		listen(scope);
+	}
+}
@@ -0,0 +1,86 @@
+export interface WriteSchedulingOptions {
+	/** Wait until no change happened for this long before writing. */
+	writeDebounceMs?: number;
+	/** Write at most once per interval. Combined with `writeDebounceMs` it caps the debounce wait. */
+	writeThrottleMs?: number;
+}
+
+export interface WriteScheduler {
+	schedule(write: () => void): void;
+	/** Runs the pending write immediately, if any. */
+	flush(): void;
+	/** Drops the pending write, if any. */
+	cancel(): void;
+	dispose(): void;
+}
+
+export function createWriteScheduler(options: WriteSchedulingOptions): WriteScheduler {
+	const { writeDebounceMs, writeThrottleMs } = options;
+
+	let pending: (() => void) | null = null;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let lastWrite = 0;
+	let firstScheduled = 0;
+
+	function run() {
+		clearTimeout(timer);
+		timer = undefined;
+		const write = pending;
+		pending = null;
+		firstScheduled = 0;
+		if (write) {
+			lastWrite = Date.now();
+			write();
+		}
+	}
+
+	function delay(now: number): number {
+		if (writeDebounceMs !== undefined) {
+			if (writeThrottleMs === undefined) return writeDebounceMs;
+			return Math.min(writeDebounceMs, firstScheduled + writeThrottleMs - now);
+		}
+		return lastWrite + (writeThrottleMs ?? 0) - now;
+	}
+
+	function flushOnHide() {
+		if (document.visibilityState === 'hidden') run();
+	}
+
+	const deferred = writeDebounceMs !== undefined || writeThrottleMs !== undefined;
+	const listening = deferred && typeof window !== 'undefined';
+	if (listening) {
+		window.addEventListener('pagehide', run);
+		document.addEventListener('visibilitychange', flushOnHide);
+	}
+
+	return {
+		schedule(write) {
+			pending = write;
+			if (!deferred) return run();
+
+			const now = Date.now();
+			if (!firstScheduled) firstScheduled = now;
+
+			const wait = delay(now);
+			if (wait <= 0) return run();
+
+			// Throttled writes keep their slot, debounced writes restart the countdown
+			if (timer !== undefined && writeDebounceMs === undefined) return;
+			clearTimeout(timer);
+			timer = setTimeout(run, wait);
+		},
+		flush: run,
+		cancel() {
+			clearTimeout(timer);
+			timer = undefined;
+			pending = null;
+			firstScheduled = 0;
+		},
+		dispose() {
+			if (listening) {
+				window.removeEventListener('pagehide', run);
+				document.removeEventListener('visibilitychange', flushOnHide);
+			}
+		}
+	};
+}
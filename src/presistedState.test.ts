@@ -1,5 +1,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { persistedState } from './lib/index.svelte';
+import {
+	createPersistedStateScope,
+	exportBackup,
+	getStorageUsage,
+	importBackup,
+	persistedState,
+	readPersistedCookie,
+	ValidationError,
+	type AsyncStorageAdapter,
+	type PersistedBackup,
+	type StandardSchemaV1,
+	type StorageAdapter
+} from './lib/index.svelte';
 
 interface TestState {
 	count: number;
@@ -9,6 +21,21 @@ async function waitForNextTick() {
 	await new Promise((resolve) => setTimeout(resolve, 0));
 }
 
+function isTestState(value: unknown): value is TestState {
+	return typeof (value as TestState)?.count === 'number';
+}
+
+const testStateSchema: StandardSchemaV1<TestState> = {
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value) =>
+			isTestState(value)
+				? { value }
+				: { issues: [{ message: 'count must be a number', path: ['count'] }] }
+	}
+};
+
 function clearAllCookies() {
 	// Clear all cookies by setting their expiration date in the past
 	document.cookie.split(';').forEach((cookie) => {
@@ -200,65 +227,1305 @@ describe('persistedState', () => {
 		expect(state.current).toBe('initialValue');
 	});
 
-	// ---- Cookie-specific tests ----
+	it('should remove the stored entry without persisting the initial value', async () => {
+		const state = persistedState<string>('testKey', 'initialValue');
 
-	it('should initialize with the initial value when no cookie exists', () => {
-		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+		state.current = 'newValue';
+		await waitForNextTick();
+		state.remove();
+		await waitForNextTick();
 
-		expect(state.current).toBe('cookieInitial');
+		expect(state.current).toBe('initialValue');
+		expect(localStorage.getItem('testKey')).toBeNull();
+
+		state.current = 'afterRemove';
+		await waitForNextTick();
+
+		expect(localStorage.getItem('testKey')).toBe('"afterRemove"');
 	});
 
-	it('should use the stored cookie value when it exists', () => {
-		// Simulate a cookie storing a JSON string: '"cookieStored"'
-		document.cookie = `cookieKey=${encodeURIComponent('"cookieStored"')};path=/`;
-		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+	it('should reset when the entry is removed in another tab', async () => {
+		const state = persistedState<string>('testKey', 'initialValue');
+		state.current = 'newValue';
+		await waitForNextTick();
 
-		expect(state.current).toBe('cookieStored');
+		localStorage.removeItem('testKey');
+		window.dispatchEvent(
+			new StorageEvent('storage', { key: 'testKey', newValue: null, storageArea: localStorage })
+		);
+		await waitForNextTick();
+
+		expect(state.current).toBe('initialValue');
+		expect(localStorage.getItem('testKey')).toBeNull();
 	});
 
-	it('should update the cookie when the value changes', async () => {
-		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+	// ---- Versioning and migrations ----
 
-		state.current = 'cookieNew';
+	it('should wrap the stored value in a versioned envelope', async () => {
+		const state = persistedState<TestState>('testKey', { count: 0 }, { version: 2 });
+
+		state.current = { count: 3 };
 		await waitForNextTick();
 
-		const raw = getCookieValue('cookieKey');
-		expect(raw).not.toBeNull();
-		// raw is the JSON string '"cookieNew"'
-		expect(JSON.parse(raw!)).toBe('cookieNew');
+		const stored = JSON.parse(localStorage.getItem('testKey') || '');
+		expect(stored.version).toBe(2);
+		expect(JSON.parse(stored.data)).toEqual({ count: 3 });
 	});
 
-	it('should reset cookie to the initial value', async () => {
-		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+	it('should migrate unversioned data step by step', () => {
+		localStorage.setItem('testKey', JSON.stringify({ total: 4 }));
 
-		state.current = 'cookieNew';
-		state.reset();
+		const state = persistedState<{ count: number; label: string }>(
+			'testKey',
+			{ count: 0, label: '' },
+			{
+				version: 2,
+				migrations: {
+					1: (v: { total: number }) => ({ count: v.total }),
+					2: (v: { count: number }) => ({ ...v, label: 'migrated' })
+				}
+			}
+		);
+
+		expect(state.current).toEqual({ count: 4, label: 'migrated' });
+	});
+
+	it('should only run migrations newer than the stored version', () => {
+		const first = vi.fn((v) => v);
+		const second = vi.fn((v) => ({ ...v, count: v.count + 1 }));
+		localStorage.setItem('testKey', JSON.stringify({ __sps: 1, version: 1, data: '{"count":1}' }));
+
+		const state = persistedState<TestState>(
+			'testKey',
+			{ count: 0 },
+			{ version: 2, migrations: { 1: first, 2: second } }
+		);
+
+		expect(first).not.toHaveBeenCalled();
+		expect(second).toHaveBeenCalledOnce();
+		expect(state.current).toEqual({ count: 2 });
+	});
+
+	it('should fall back to the initial value when the stored version is newer', () => {
+		const onParseError = vi.fn();
+		localStorage.setItem('testKey', JSON.stringify({ __sps: 1, version: 5, data: '{"count":1}' }));
+
+		const state = persistedState<TestState>('testKey', { count: 0 }, { version: 2, onParseError });
+
+		expect(onParseError).toHaveBeenCalled();
+		expect(state.current).toEqual({ count: 0 });
+	});
+
+	it('should migrate values received from other tabs', async () => {
+		const state = persistedState<TestState>(
+			'testKey',
+			{ count: 0 },
+			{ version: 1, migrations: { 1: (v: { total: number }) => ({ count: v.total }) } }
+		);
 		await waitForNextTick();
 
-		expect(state.current).toBe('cookieInitial');
-		const raw = getCookieValue('cookieKey');
-		expect(raw).not.toBeNull();
-		expect(JSON.parse(raw!)).toBe('cookieInitial');
+		window.dispatchEvent(
+			new StorageEvent('storage', {
+				key: 'testKey',
+				newValue: JSON.stringify({ total: 7 }),
+				storageArea: localStorage
+			})
+		);
+		await waitForNextTick();
+
+		expect(state.current).toEqual({ count: 7 });
 	});
 
-	it('should not sync across tabs for cookies even if syncTabs is true', async () => {
-		const state = persistedState<string>('cookieKey', 'cookieInitial', {
-			storage: 'cookie',
-			syncTabs: true
+	// ---- Validation ----
+
+	it('should reset to the initial value when validation fails', () => {
+		const onValidationError = vi.fn();
+		localStorage.setItem('testKey', JSON.stringify({ count: 'tampered' }));
+
+		const state = persistedState<TestState>(
+			'testKey',
+			{ count: 0 },
+			{ validate: isTestState, onValidationError }
+		);
+
+		expect(onValidationError).toHaveBeenCalledWith(expect.any(ValidationError));
+		expect(state.current).toEqual({ count: 0 });
+	});
+
+	it('should keep the stored value with the keep policy', () => {
+		localStorage.setItem('testKey', JSON.stringify({ count: 'tampered' }));
+
+		const state = persistedState<TestState>(
+			'testKey',
+			{ count: 0 },
+			{ validate: isTestState, validationPolicy: 'keep', onValidationError: () => {} }
+		);
+
+		expect(state.current).toEqual({ count: 'tampered' });
+	});
+
+	it('should merge valid fields with the merge policy', () => {
+		localStorage.setItem('testKey', JSON.stringify({ count: 'tampered', label: 'kept' }));
+
+		const state = persistedState<TestState & { label?: string }>(
+			'testKey',
+			{ count: 0, label: '' },
+			{ validate: testStateSchema, validationPolicy: 'merge', onValidationError: () => {} }
+		);
+
+		expect(state.current).toEqual({ count: 0, label: 'kept' });
+	});
+
+	it('should use the value returned by onValidationError', () => {
+		localStorage.setItem('testKey', JSON.stringify({ count: 'tampered' }));
+
+		const state = persistedState<TestState>(
+			'testKey',
+			{ count: 0 },
+			{ validate: testStateSchema, onValidationError: () => ({ count: -1 }) }
+		);
+
+		expect(state.current).toEqual({ count: -1 });
+	});
+
+	it('should validate values received from other tabs', async () => {
+		const state = persistedState<TestState>(
+			'testKey',
+			{ count: 0 },
+			{
+				validate: testStateSchema,
+				onValidationError: () => ({ count: 0 })
+			}
+		);
+		state.current = { count: 5 };
+		await waitForNextTick();
+
+		window.dispatchEvent(
+			new StorageEvent('storage', {
+				key: 'testKey',
+				newValue: JSON.stringify({ count: null }),
+				storageArea: localStorage
+			})
+		);
+		await waitForNextTick();
+
+		expect(state.current).toEqual({ count: 0 });
+	});
+
+	// ---- Write scheduling ----
+
+	it('should debounce writes', async () => {
+		const state = persistedState<string>('testKey', 'initialValue', { writeDebounceMs: 30 });
+
+		state.current = 'a';
+		await waitForNextTick();
+		state.current = 'b';
+		await waitForNextTick();
+
+		expect(localStorage.getItem('testKey')).toBeNull();
+
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(localStorage.getItem('testKey')).toBe('"b"');
+	});
+
+	it('should throttle writes', async () => {
+		const state = persistedState<string>('testKey', 'initialValue', { writeThrottleMs: 30 });
+		await waitForNextTick();
+
+		expect(localStorage.getItem('testKey')).toBe('"initialValue"');
+
+		state.current = 'a';
+		await waitForNextTick();
+		state.current = 'b';
+		await waitForNextTick();
+
+		expect(localStorage.getItem('testKey')).toBe('"initialValue"');
+
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(localStorage.getItem('testKey')).toBe('"b"');
+	});
+
+	it('should write pending changes on flush', async () => {
+		const state = persistedState<string>('testKey', 'initialValue', { writeDebounceMs: 1000 });
+
+		state.current = 'flushed';
+		await waitForNextTick();
+		state.flush();
+
+		expect(localStorage.getItem('testKey')).toBe('"flushed"');
+	});
+
+	it('should write pending changes when the page is hidden', async () => {
+		const state = persistedState<string>('testKey', 'initialValue', { writeDebounceMs: 1000 });
+
+		state.current = 'hidden';
+		await waitForNextTick();
+		window.dispatchEvent(new Event('pagehide'));
+
+		expect(localStorage.getItem('testKey')).toBe('"hidden"');
+	});
+
+	// ---- Encryption ----
+
+	async function createKey() {
+		return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+			'encrypt',
+			'decrypt'
+		]);
+	}
+
+	async function waitForEncryption() {
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+
+	it('should store encrypted values', async () => {
+		const key = await createKey();
+		const state = persistedState<TestState>('testKey', { count: 0 }, { encryption: { key } });
+
+		state.current = { count: 42 };
+		await waitForEncryption();
+
+		const stored = localStorage.getItem('testKey')!;
+		expect(stored.startsWith('enc:v1:')).toBe(true);
+		expect(stored).not.toContain('count');
+	});
+
+	it('should decrypt stored values asynchronously', async () => {
+		const key = await createKey();
+		const writer = persistedState<TestState>('testKey', { count: 0 }, { encryption: { key } });
+		writer.current = { count: 7 };
+		await waitForEncryption();
+
+		const state = persistedState<TestState>(
+			'testKey',
+			{ count: 0 },
+			{ encryption: { key: async () => key } }
+		);
+
+		expect(state.isLoading).toBe(true);
+		expect(state.current).toEqual({ count: 0 });
+
+		expect(await state.ready).toEqual({ count: 7 });
+		expect(state.isLoading).toBe(false);
+	});
+
+	it('should encrypt plaintext values stored before encryption was enabled', async () => {
+		const key = await createKey();
+		localStorage.setItem('testKey', JSON.stringify({ count: 3 }));
+
+		const state = persistedState<TestState>('testKey', { count: 0 }, { encryption: { key } });
+
+		expect(await state.ready).toEqual({ count: 3 });
+		await waitForEncryption();
+
+		expect(localStorage.getItem('testKey')!.startsWith('enc:v1:')).toBe(true);
+	});
+
+	it('should report values encrypted with another key as parse errors', async () => {
+		const writer = persistedState<string>('testKey', 'initial', {
+			encryption: { key: await createKey() }
 		});
+		writer.current = 'secret';
+		await waitForEncryption();
+
+		const onParseError = vi.fn();
+		const state = persistedState<string>('testKey', 'initial', {
+			encryption: { key: await createKey() },
+			onParseError
+		});
+
+		expect(await state.ready).toBe('initial');
+		expect(onParseError).toHaveBeenCalled();
+	});
+
+	// ---- Compression ----
+
+	it('should compress values above the threshold', async () => {
+		const notes = Array.from({ length: 200 }, (_, i) => `note ${i % 10} — ✓ 🎉`);
+		const state = persistedState<string[]>('testKey', [], { compression: { threshold: 100 } });
+
+		state.current = notes;
 		await waitForNextTick();
 
-		// Simulate storage event (which cookies do not trigger)
-		const storageEvent = new StorageEvent('storage', {
-			key: 'cookieKey',
-			newValue: JSON.stringify('cookieUpdated'),
-			storageArea: localStorage
+		const stored = localStorage.getItem('testKey')!;
+		expect(stored.startsWith('lz:v1:')).toBe(true);
+		expect(stored.length).toBeLessThan(JSON.stringify(notes).length / 4);
+
+		const reader = persistedState<string[]>('testKey', [], { compression: true });
+		expect(reader.current).toEqual(notes);
+	});
+
+	it('should keep small values uncompressed', async () => {
+		const state = persistedState<string>('testKey', 'initial', { compression: true });
+
+		state.current = 'short';
+		await waitForNextTick();
+
+		expect(localStorage.getItem('testKey')).toBe('"short"');
+	});
+
+	it('should read uncompressed values stored before compression was enabled', () => {
+		localStorage.setItem('testKey', JSON.stringify({ count: 9 }));
+
+		const state = persistedState<TestState>('testKey', { count: 0 }, { compression: true });
+
+		expect(state.current).toEqual({ count: 9 });
+	});
+
+	it('should round-trip compressed values with repeated patterns', async () => {
+		// Exercises dictionary entries referenced right after their creation
+		const value = 'a'.repeat(500) + 'abababab'.repeat(50) + '\u0000\uffff';
+		const state = persistedState<string>('testKey', '', { compression: { threshold: 10 } });
+
+		state.current = value;
+		await waitForNextTick();
+
+		expect(localStorage.getItem('testKey')!.startsWith('lz:v1:')).toBe(true);
+		expect(persistedState<string>('testKey', '', { compression: true }).current).toBe(value);
+	});
+
+	// ---- Expiry ----
+
+	it('should store the expiry and expose the remaining lifetime', async () => {
+		const state = persistedState<string>('testKey', 'initial', { ttl: 60_000 });
+		expect(state.expiresAt).toBeNull();
+
+		state.current = 'cached';
+		await waitForNextTick();
+
+		const stored = JSON.parse(localStorage.getItem('testKey')!);
+		expect(stored).toMatchObject({ __sps: 1, data: '"cached"' });
+		expect(state.expiresAt).toBe(stored.expiresAt);
+		expect(state.expiresIn).toBeGreaterThan(59_000);
+		expect(state.expiresIn).toBeLessThanOrEqual(60_000);
+	});
+
+	it('should not renew the expiry when the value is only loaded', async () => {
+		const writer = persistedState<string>('testKey', 'initial', { ttl: 60_000 });
+		writer.current = 'cached';
+		await waitForNextTick();
+		const stored = localStorage.getItem('testKey');
+
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		const reader = persistedState<string>('testKey', 'initial', { ttl: 60_000 });
+		await waitForNextTick();
+
+		expect(reader.current).toBe('cached');
+		expect(reader.expiresAt).toBe(writer.expiresAt);
+		expect(localStorage.getItem('testKey')).toBe(stored);
+	});
+
+	it('should treat expired entries as absent and delete them', () => {
+		localStorage.setItem(
+			'testKey',
+			JSON.stringify({ __sps: 1, expiresAt: Date.now() - 1, data: '"stale"' })
+		);
+
+		const state = persistedState<string>('testKey', 'initial', { ttl: 1000 });
+
+		expect(state.current).toBe('initial');
+		expect(state.expiresIn).toBeNull();
+		expect(localStorage.getItem('testKey')).toBeNull();
+	});
+
+	it('should honour an absolute expiresAt', async () => {
+		const expiresAt = new Date(Date.now() + 60_000);
+		const state = persistedState<boolean>('testKey', false, { expiresAt });
+
+		state.current = true;
+		await waitForNextTick();
+
+		expect(state.expiresAt).toBe(expiresAt.getTime());
+		expect(persistedState<boolean>('testKey', false).current).toBe(true);
+	});
+
+	it('should reset the state when the value expires while watching', async () => {
+		const state = persistedState<string>('testKey', 'initial', { ttl: 30, watchExpiry: true });
+
+		state.current = 'cached';
+		await waitForNextTick();
+		expect(localStorage.getItem('testKey')).not.toBeNull();
+
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(state.current).toBe('initial');
+		expect(state.expiresAt).toBeNull();
+		expect(localStorage.getItem('testKey')).toBeNull();
+	});
+
+	// ---- Quota handling ----
+
+	/** Adapter throwing QuotaExceededError once the stored strings exceed `limit` characters. */
+	function createLimitedAdapter(limit: number) {
+		const items = new Map<string, string>();
+		const size = () => [...items].reduce((total, [k, v]) => total + k.length + v.length, 0);
+		const adapter: StorageAdapter = {
+			getItem: (k) => items.get(k) ?? null,
+			setItem(k, v) {
+				const previous = items.get(k);
+				items.set(k, v);
+				if (size() > limit) {
+					if (previous === undefined) items.delete(k);
+					else items.set(k, previous);
+					throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+				}
+			},
+			removeItem: (k) => void items.delete(k),
+			keys: () => [...items.keys()]
+		};
+		return { items, adapter };
+	}
+
+	it('should report a full storage to onQuotaExceeded', async () => {
+		const { adapter } = createLimitedAdapter(20);
+		const onQuotaExceeded = vi.fn();
+		const onWriteError = vi.fn();
+		const state = persistedState<string>('testKey', '', {
+			storage: adapter,
+			onQuotaExceeded,
+			onWriteError
 		});
-		window.dispatchEvent(storageEvent);
 
+		state.current = 'x'.repeat(50);
 		await waitForNextTick();
 
-		// Value should remain unchanged because cookies don't use storage events
-		expect(state.current).toBe('cookieInitial');
+		expect(onQuotaExceeded).toHaveBeenCalledWith(expect.any(DOMException));
+		expect(onWriteError).not.toHaveBeenCalled();
+	});
+
+	it('should evict expired entries to make room', async () => {
+		const { items, adapter } = createLimitedAdapter(100);
+		items.set('stale', JSON.stringify({ __sps: 1, expiresAt: Date.now() - 1, data: '"old"' }));
+		const state = persistedState<string>('testKey', '', { storage: adapter, evict: ['expired'] });
+
+		state.current = 'x'.repeat(40);
+		await waitForNextTick();
+
+		expect(items.has('stale')).toBe(false);
+		expect(items.get('testKey')).toBe(JSON.stringify('x'.repeat(40)));
+	});
+
+	it('should evict the least recently used keys of the namespace', async () => {
+		const { items, adapter } = createLimitedAdapter(200);
+		const options = { storage: adapter, evict: ['lru' as const], namespace: 'cache' };
+		const first = persistedState<string>('first', '', options);
+		const second = persistedState<string>('second', '', options);
+		const third = persistedState<string>('third', '', options);
+
+		first.current = 'a'.repeat(40);
+		await waitForNextTick();
+		second.current = 'b'.repeat(40);
+		await waitForNextTick();
+		third.current = 'c'.repeat(40);
+		await waitForNextTick();
+
+		expect(items.has('first')).toBe(false);
+		expect(items.has('second')).toBe(true);
+		expect(items.has('third')).toBe(true);
+	});
+
+	it('should move values that do not fit to the fallback storage', async () => {
+		const { items, adapter } = createLimitedAdapter(30);
+		const fallbackItems = new Map<string, unknown>();
+		const fallbackStorage: AsyncStorageAdapter = {
+			name: 'memory-fallback',
+			getItem: async (k) => fallbackItems.get(k) ?? null,
+			setItem: async (k, v) => void fallbackItems.set(k, v),
+			removeItem: async (k) => void fallbackItems.delete(k),
+			keys: async () => [...fallbackItems.keys()]
+		};
+		const state = persistedState<string>('testKey', '', { storage: adapter, fallbackStorage });
+
+		state.current = 'small';
+		await waitForNextTick();
+		state.current = 'x'.repeat(50);
+		await waitForNextTick();
+		await waitForNextTick();
+
+		expect(items.get('testKey')).toBe('fallback:v1');
+		expect(fallbackItems.get('testKey')).toBe(JSON.stringify('x'.repeat(50)));
+
+		const reader = persistedState<string>('testKey', '', { storage: adapter, fallbackStorage });
+		expect(reader.isLoading).toBe(true);
+		expect(await reader.ready).toBe('x'.repeat(50));
+
+		reader.current = 'fits';
+		await waitForNextTick();
+		await waitForNextTick();
+
+		expect(items.get('testKey')).toBe('"fits"');
+		expect(fallbackItems.has('testKey')).toBe(false);
+	});
+
+	it('should only read the fallback storage for values moved there', async () => {
+		const { items, adapter } = createLimitedAdapter(30);
+		const fallbackItems = new Map<string, unknown>();
+		const fallbackStorage: AsyncStorageAdapter = {
+			name: 'memory-fallback',
+			getItem: async (k) => fallbackItems.get(k) ?? null,
+			setItem: async (k, v) => void fallbackItems.set(k, v),
+			removeItem: async (k) => void fallbackItems.delete(k),
+			keys: async () => [...fallbackItems.keys()]
+		};
+		const fresh = persistedState<string>('fresh', 'init', { storage: adapter, fallbackStorage });
+
+		expect(fresh.isLoading).toBe(false);
+		await waitForNextTick();
+		expect(items.get('fresh')).toBe('"init"');
+
+		// The fallback lost the value the marker points to
+		items.set('moved', 'fallback:v1');
+		const moved = persistedState<string>('moved', 'init', { storage: adapter, fallbackStorage });
+		expect(moved.isLoading).toBe(true);
+		moved.current = 'changed';
+
+		expect(await moved.ready).toBe('changed');
+		await waitForNextTick();
+		expect(items.get('moved')).toBe('"changed"');
+	});
+
+	it('should report the size of each stored entry', async () => {
+		localStorage.setItem('testKey', '"value"');
+
+		const { keys } = await getStorageUsage('local');
+
+		expect(keys).toEqual({ testKey: ('testKey'.length + '"value"'.length) * 2 });
+	});
+
+	// ---- Scopes ----
+
+	it('should prefix keys and share default options within a scope', async () => {
+		const scope = createPersistedStateScope({ prefix: 'app', storage: 'session' });
+		const theme = scope.persistedState('theme', 'light');
+		const count = scope.persistedState('count', 0, { storage: 'local' });
+
+		theme.current = 'dark';
+		count.current = 3;
+		await waitForNextTick();
+
+		expect(sessionStorage.getItem('app:theme')).toBe('"dark"');
+		expect(localStorage.getItem('app:count')).toBe('3');
+		expect(scope.keys()).toEqual(['theme', 'count']);
+	});
+
+	it('should export, reset and clear all states of a scope', async () => {
+		const scope = createPersistedStateScope({ prefix: 'user', separator: '/' });
+		const profile = scope.persistedState('profile', { name: '' });
+		const visits = scope.persistedState('visits', 0);
+
+		profile.current = { name: 'Ada' };
+		visits.current = 2;
+		await waitForNextTick();
+
+		expect(await scope.export()).toEqual({ profile: { name: 'Ada' }, visits: 2 });
+
+		scope.resetAll();
+		await waitForNextTick();
+		expect(localStorage.getItem('user/visits')).toBe('0');
+
+		visits.current = 5;
+		await waitForNextTick();
+		await scope.clearAll();
+
+		expect(visits.current).toBe(0);
+		expect(localStorage.getItem('user/profile')).toBeNull();
+		expect(localStorage.getItem('user/visits')).toBeNull();
+	});
+
+	it('should re-hydrate the states of a scope when the partition changes', async () => {
+		localStorage.setItem('app:bob:theme', '"dark"');
+		const user = persistedState('currentUser', 'alice', { storage: 'session' });
+		const scope = createPersistedStateScope({ prefix: 'app', partition: () => user.current });
+		const theme = scope.persistedState('theme', 'light');
+
+		theme.current = 'sepia';
+		await waitForNextTick();
+		expect(localStorage.getItem('app:alice:theme')).toBe('"sepia"');
+
+		user.current = 'bob';
+		await waitForNextTick();
+		expect(theme.current).toBe('dark');
+
+		theme.current = 'contrast';
+		await waitForNextTick();
+		expect(localStorage.getItem('app:bob:theme')).toBe('"contrast"');
+		expect(localStorage.getItem('app:alice:theme')).toBe('"sepia"');
+
+		user.current = 'carol';
+		await waitForNextTick();
+		expect(theme.current).toBe('light');
+		expect(localStorage.getItem('app:carol:theme')).toBeNull();
+
+		await scope.purgePartition('alice');
+		expect(localStorage.getItem('app:alice:theme')).toBeNull();
+		expect(localStorage.getItem('app:bob:theme')).toBe('"contrast"');
+	});
+
+	// ---- Backup ----
+
+	it('should export raw localStorage values and cookies', async () => {
+		const theme = persistedState('theme', 'dark', { version: 2 });
+		persistedState('consent', true, { storage: 'cookie' });
+		theme.current = 'light';
+		await waitForNextTick();
+
+		const backup = await exportBackup({ include: ['local', 'cookie'] });
+
+		expect(backup).toMatchObject({ format: 'svelte-persisted-state', version: 1 });
+		expect(backup.local).toEqual({ theme: localStorage.getItem('theme') });
+		expect(backup.cookie).toEqual({ consent: 'true' });
+	});
+
+	it('should import a backup into live states', async () => {
+		const theme = persistedState('theme', 'dark');
+		const consent = persistedState('consent', false, { storage: 'cookie' });
+		const backup = JSON.stringify({
+			format: 'svelte-persisted-state',
+			version: 1,
+			createdAt: new Date().toISOString(),
+			local: { theme: '"light"' },
+			cookie: { consent: 'true' }
+		});
+
+		await importBackup(backup, { include: ['local', 'cookie'] });
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(theme.current).toBe('light');
+		expect(consent.current).toBe(true);
+		expect(localStorage.getItem('theme')).toBe('"light"');
+	});
+
+	it('should only back up keys accepted by the filter', async () => {
+		localStorage.setItem('app:theme', '"dark"');
+		localStorage.setItem('other', '1');
+
+		const backup = await exportBackup({
+			include: ['local'],
+			filter: (key) => key.startsWith('app:')
+		});
+
+		expect(backup.local).toEqual({ 'app:theme': '"dark"' });
+	});
+
+	it('should reject invalid backups without writing anything', async () => {
+		const invalid = {
+			format: 'svelte-persisted-state',
+			version: 1,
+			local: { theme: '"light"', count: 3 }
+		} as unknown as PersistedBackup;
+
+		const error = await importBackup(invalid).catch((error) => error);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.issues).toEqual([
+			{ message: 'local values must be strings', path: ['local', 'count'] }
+		]);
+		expect(localStorage.getItem('theme')).toBeNull();
+		await expect(importBackup('{"format":"other"}')).rejects.toThrow(ValidationError);
+	});
+
+	// ---- Partial persistence ----
+
+	it('should only persist picked paths', async () => {
+		const settings = persistedState(
+			'settings',
+			{ table: { sortOrder: 'asc', hovered: 0 }, sidebarOpen: false },
+			{ pick: ['table.sortOrder'] }
+		);
+
+		settings.current = { table: { sortOrder: 'desc', hovered: 3 }, sidebarOpen: true };
+		await waitForNextTick();
+
+		expect(JSON.parse(localStorage.getItem('settings')!)).toEqual({
+			table: { sortOrder: 'desc' }
+		});
+	});
+
+	it('should not persist omitted paths', async () => {
+		const settings = persistedState(
+			'settings',
+			{ theme: 'light', ui: { menuOpen: false, scroll: 0 } },
+			{ omit: ['ui.menuOpen'] }
+		);
+
+		settings.current = { theme: 'dark', ui: { menuOpen: true, scroll: 20 } };
+		await waitForNextTick();
+
+		expect(JSON.parse(localStorage.getItem('settings')!)).toEqual({
+			theme: 'dark',
+			ui: { scroll: 20 }
+		});
+	});
+
+	it('should deep-merge partially stored values into the initial value', () => {
+		localStorage.setItem('settings', JSON.stringify({ table: { sortOrder: 'desc' } }));
+
+		const settings = persistedState(
+			'settings',
+			{ table: { sortOrder: 'asc', pageSize: 20 }, sidebarOpen: false },
+			{ pick: ['table.sortOrder'] }
+		);
+
+		expect(settings.current).toEqual({
+			table: { sortOrder: 'desc', pageSize: 20 },
+			sidebarOpen: false
+		});
+	});
+
+	it('should validate the merged value', () => {
+		localStorage.setItem('state', JSON.stringify({}));
+
+		const state = persistedState<TestState>(
+			'state',
+			{ count: 1 },
+			{
+				omit: ['count'],
+				validate: testStateSchema
+			}
+		);
+
+		expect(state.current).toEqual({ count: 1 });
+	});
+
+	// ---- Merging with defaults ----
+
+	it('should replace the initial value by default', () => {
+		localStorage.setItem('settings', JSON.stringify({ theme: 'dark' }));
+
+		const settings = persistedState('settings', { theme: 'light', fontSize: 14 });
+
+		expect(settings.current).toEqual({ theme: 'dark' });
+	});
+
+	it('should shallow-merge stored values into the initial value', () => {
+		localStorage.setItem('settings', JSON.stringify({ theme: 'dark', editor: { tabs: 2 } }));
+
+		const settings = persistedState(
+			'settings',
+			{ theme: 'light', fontSize: 14, editor: { tabs: 4, wrap: true } },
+			{ merge: 'shallow' }
+		);
+
+		expect(settings.current).toEqual({ theme: 'dark', fontSize: 14, editor: { tabs: 2 } });
+	});
+
+	it('should deep-merge stored values into the initial value', () => {
+		localStorage.setItem('settings', JSON.stringify({ editor: { tabs: 2 }, recent: ['a'] }));
+
+		const settings = persistedState(
+			'settings',
+			{ theme: 'light', editor: { tabs: 4, wrap: true }, recent: ['x', 'y'] },
+			{ merge: 'deep' }
+		);
+
+		expect(settings.current).toEqual({
+			theme: 'light',
+			editor: { tabs: 2, wrap: true },
+			recent: ['a']
+		});
+	});
+
+	it('should use a custom merge function', () => {
+		localStorage.setItem('tags', JSON.stringify(['saved']));
+
+		const tags = persistedState('tags', ['default'], {
+			merge: (initialValue, stored) => [...new Set([...initialValue, ...stored])]
+		});
+
+		expect(tags.current).toEqual(['default', 'saved']);
+	});
+
+	it('should merge values changed in other tabs', async () => {
+		const settings = persistedState(
+			'settings',
+			{ theme: 'light', fontSize: 14 },
+			{ merge: 'deep' }
+		);
+
+		window.dispatchEvent(
+			new StorageEvent('storage', {
+				key: 'settings',
+				newValue: JSON.stringify({ theme: 'dark' }),
+				storageArea: localStorage
+			})
+		);
+		await waitForNextTick();
+
+		expect(settings.current).toEqual({ theme: 'dark', fontSize: 14 });
+	});
+
+	// ---- Conflict resolution ----
+
+	function stamped(value: unknown, stamp: { clock: number; tab: string; time: number }) {
+		return JSON.stringify({ __sps: 1, stamp, data: JSON.stringify(value) });
+	}
+
+	function receive(key: string, newValue: string) {
+		window.dispatchEvent(new StorageEvent('storage', { key, newValue, storageArea: localStorage }));
+	}
+
+	it('should stamp writes while conflict handling is enabled', async () => {
+		const state = persistedState('draft', 'a', { resolveConflict: 'last-write-wins' });
+		state.current = 'b';
+		await waitForNextTick();
+
+		const stored = JSON.parse(localStorage.getItem('draft')!);
+		expect(stored.data).toBe('"b"');
+		expect(stored.stamp).toMatchObject({ clock: 1, tab: expect.any(String) });
+	});
+
+	it('should not notify other tabs when a state only loads its value', async () => {
+		// One storage shared by two tabs, notifying the tab that did not write
+		const items = new Map<string, string>();
+		const tabs = new Set<(key: string, value: string) => void>();
+		function openTab(): StorageAdapter {
+			let listener = (key: string, value: string) => void [key, value];
+			return {
+				getItem: (k) => items.get(k) ?? null,
+				setItem: (k, v) => {
+					items.set(k, v);
+					tabs.forEach((notify) => notify !== listener && notify(k, v));
+				},
+				removeItem: (k) => void items.delete(k),
+				subscribe: (k, callback) => {
+					listener = (key, value) => {
+						if (key === k) callback(value);
+					};
+					tabs.add(listener);
+					return () => tabs.delete(listener);
+				}
+			};
+		}
+
+		const onRemoteChange = vi.fn();
+		const first = persistedState('draft', 'a', {
+			storage: openTab(),
+			resolveConflict: 'last-write-wins',
+			onRemoteChange
+		});
+		first.current = 'b';
+		await waitForNextTick();
+		const stored = items.get('draft');
+
+		const second = persistedState('draft', 'a', {
+			storage: openTab(),
+			resolveConflict: 'last-write-wins'
+		});
+		await waitForNextTick();
+
+		expect(second.current).toBe('b');
+		expect(items.get('draft')).toBe(stored);
+		expect(onRemoteChange).not.toHaveBeenCalled();
+	});
+
+	it('should let the last change win over a concurrent remote change', async () => {
+		const state = persistedState('draft', 'a', {
+			resolveConflict: 'last-write-wins',
+			writeDebounceMs: 1000
+		});
+		state.current = 'local';
+		await waitForNextTick();
+
+		receive('draft', stamped('remote', { clock: 1, tab: 'other', time: Date.now() - 1000 }));
+		await waitForNextTick();
+		expect(state.current).toBe('local');
+
+		receive('draft', stamped('newer', { clock: 1, tab: 'other', time: Date.now() + 1000 }));
+		await waitForNextTick();
+		expect(state.current).toBe('newer');
+	});
+
+	it('should merge fields changed in different tabs', async () => {
+		const state = persistedState(
+			'settings',
+			{ theme: 'light', fontSize: 14 },
+			{ resolveConflict: 'merge-fields', writeDebounceMs: 1000 }
+		);
+		state.current.theme = 'dark';
+		await waitForNextTick();
+
+		receive(
+			'settings',
+			stamped({ theme: 'light', fontSize: 16 }, { clock: 1, tab: 'other', time: Date.now() })
+		);
+		await waitForNextTick();
+
+		expect(state.current).toEqual({ theme: 'dark', fontSize: 16 });
+		state.flush();
+		expect(JSON.parse(JSON.parse(localStorage.getItem('settings')!).data)).toEqual({
+			theme: 'dark',
+			fontSize: 16
+		});
+	});
+
+	it('should keep the local value and report remote changes', async () => {
+		const onRemoteChange = vi.fn();
+		const state = persistedState('draft', 'a', {
+			resolveConflict: 'keep-local',
+			onRemoteChange,
+			writeDebounceMs: 1000
+		});
+
+		receive('draft', stamped('b', { clock: 1, tab: 'other', time: Date.now() }));
+		await waitForNextTick();
+		expect(state.current).toBe('b');
+		expect(onRemoteChange).toHaveBeenLastCalledWith(
+			expect.objectContaining({ local: 'a', remote: 'b', value: 'b', conflict: false })
+		);
+
+		state.current = 'local';
+		await waitForNextTick();
+		receive('draft', stamped('c', { clock: 2, tab: 'other', time: Date.now() }));
+		await waitForNextTick();
+
+		expect(state.current).toBe('local');
+		expect(onRemoteChange).toHaveBeenLastCalledWith(
+			expect.objectContaining({ local: 'local', remote: 'c', value: 'local', conflict: true })
+		);
+	});
+
+	it('should resolve conflicts with a custom function', async () => {
+		const resolveConflict = vi.fn((local: string[], remote: string[]) => [
+			...new Set([...remote, ...local])
+		]);
+		const state = persistedState<string[]>('tags', [], {
+			resolveConflict,
+			writeDebounceMs: 1000
+		});
+		state.current = ['local'];
+		await waitForNextTick();
+
+		receive('tags', stamped(['remote'], { clock: 1, tab: 'other', time: Date.now() }));
+		await waitForNextTick();
+
+		expect(state.current).toEqual(['remote', 'local']);
+		expect(resolveConflict).toHaveBeenCalledWith(['local'], ['remote'], {
+			base: [],
+			local: expect.objectContaining({ clock: 1 }),
+			remote: { clock: 1, tab: 'other', time: expect.any(Number) }
+		});
+	});
+
+	// ---- History ----
+
+	it('should undo and redo changes', async () => {
+		const state = persistedState('doc', 'a', { history: true });
+		expect(state.canUndo).toBe(false);
+
+		state.current = 'b';
+		await waitForNextTick();
+		state.current = 'c';
+		await waitForNextTick();
+
+		state.undo();
+		await waitForNextTick();
+		expect(state.current).toBe('b');
+		expect(localStorage.getItem('doc')).toBe('"b"');
+		expect(state.canRedo).toBe(true);
+
+		state.redo();
+		await waitForNextTick();
+		expect(state.current).toBe('c');
+		expect(state.canRedo).toBe(false);
+	});
+
+	it('should drop the redo stack and old entries beyond the depth', async () => {
+		const state = persistedState('count', 0, { history: { depth: 2 } });
+		for (const value of [1, 2, 3]) {
+			state.current = value;
+			await waitForNextTick();
+		}
+
+		state.undo();
+		state.undo();
+		await waitForNextTick();
+		expect(state.current).toBe(1);
+		expect(state.canUndo).toBe(false);
+
+		state.current = 5;
+		await waitForNextTick();
+		expect(state.canRedo).toBe(false);
+	});
+
+	it('should record changes from other tabs as entries', async () => {
+		const state = persistedState('doc', 'a', { history: true });
+		state.current = 'local';
+		await waitForNextTick();
+
+		window.dispatchEvent(
+			new StorageEvent('storage', { key: 'doc', newValue: '"remote"', storageArea: localStorage })
+		);
+		await waitForNextTick();
+
+		state.undo();
+		await waitForNextTick();
+		expect(state.current).toBe('local');
+	});
+
+	it('should persist the history', async () => {
+		const state = persistedState('doc', 'a', { history: { persist: true } });
+		state.current = 'b';
+		await waitForNextTick();
+		state.current = 'c';
+		await waitForNextTick();
+		state.undo();
+		await waitForNextTick();
+
+		const restored = persistedState('doc', 'a', { history: { persist: true } });
+		expect(restored.current).toBe('b');
+		expect(restored.canRedo).toBe(true);
+		restored.undo();
+		expect(restored.current).toBe('a');
+
+		state.remove();
+		expect(localStorage.getItem('doc:history')).toBeNull();
+	});
+
+	// ---- Custom storage adapters ----
+
+	function createMemoryAdapter() {
+		const items = new Map<string, string>();
+		const listeners = new Map<string, (newValue: string | null) => void>();
+		const adapter: StorageAdapter = {
+			getItem: (k) => items.get(k) ?? null,
+			setItem: (k, v) => void items.set(k, v),
+			removeItem: (k) => void items.delete(k),
+			subscribe: (k, callback) => {
+				listeners.set(k, callback);
+				return () => listeners.delete(k);
+			}
+		};
+		const emit = (k: string, v: string | null) => listeners.get(k)?.(v);
+		return { items, adapter, emit };
+	}
+
+	it('should read from and write to a custom storage adapter', async () => {
+		const { items, adapter } = createMemoryAdapter();
+		items.set('testKey', JSON.stringify('storedValue'));
+
+		const state = persistedState<string>('testKey', 'initialValue', { storage: adapter });
+		expect(state.current).toBe('storedValue');
+
+		state.current = 'newValue';
+		await waitForNextTick();
+
+		expect(items.get('testKey')).toBe('"newValue"');
+		expect(localStorage.getItem('testKey')).toBeNull();
+	});
+
+	it('should sync through the adapter subscription', async () => {
+		const { adapter, emit } = createMemoryAdapter();
+		const state = persistedState<string>('testKey', 'initialValue', { storage: adapter });
+		await waitForNextTick();
+
+		emit('testKey', JSON.stringify('external'));
+		expect(state.current).toBe('external');
+
+		emit('testKey', null);
+		expect(state.current).toBe('initialValue');
+	});
+
+	// ---- Cookie-specific tests ----
+
+	it('should initialize with the initial value when no cookie exists', () => {
+		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+
+		expect(state.current).toBe('cookieInitial');
+	});
+
+	it('should use the stored cookie value when it exists', () => {
+		// Simulate a cookie storing a JSON string: '"cookieStored"'
+		document.cookie = `cookieKey=${encodeURIComponent('"cookieStored"')};path=/`;
+		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+
+		expect(state.current).toBe('cookieStored');
+	});
+
+	it('should update the cookie when the value changes', async () => {
+		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+
+		state.current = 'cookieNew';
+		await waitForNextTick();
+
+		const raw = getCookieValue('cookieKey');
+		expect(raw).not.toBeNull();
+		// raw is the JSON string '"cookieNew"'
+		expect(JSON.parse(raw!)).toBe('cookieNew');
+	});
+
+	it('should reset cookie to the initial value', async () => {
+		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+
+		state.current = 'cookieNew';
+		state.reset();
+		await waitForNextTick();
+
+		expect(state.current).toBe('cookieInitial');
+		const raw = getCookieValue('cookieKey');
+		expect(raw).not.toBeNull();
+		expect(JSON.parse(raw!)).toBe('cookieInitial');
+	});
+
+	it('should ignore localStorage storage events for cookie-backed state', async () => {
+		const state = persistedState<string>('cookieKey', 'cookieInitial', {
+			storage: 'cookie',
+			syncTabs: true
+		});
+		await waitForNextTick();
+
+		// Simulate storage event (which cookies do not trigger)
+		const storageEvent = new StorageEvent('storage', {
+			key: 'cookieKey',
+			newValue: JSON.stringify('cookieUpdated'),
+			storageArea: localStorage
+		});
+		window.dispatchEvent(storageEvent);
+
+		await waitForNextTick();
+
+		// Value should remain unchanged because cookies don't use storage events
+		expect(state.current).toBe('cookieInitial');
+	});
+
+	it('should expire the cookie on remove', async () => {
+		const state = persistedState<string>('cookieKey', 'cookieInitial', {
+			storage: 'cookie',
+			cookieOptions: { path: '/' }
+		});
+
+		state.current = 'cookieNew';
+		await waitForNextTick();
+		expect(getCookieValue('cookieKey')).not.toBeNull();
+
+		state.remove();
+		await waitForNextTick();
+
+		expect(state.current).toBe('cookieInitial');
+		expect(getCookieValue('cookieKey')).toBeNull();
+	});
+
+	it('should sync cookie-backed state via BroadcastChannel', async () => {
+		const state1 = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+		const state2 = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+		await waitForNextTick();
+
+		state1.current = 'loggedIn';
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(state2.current).toBe('loggedIn');
+	});
+
+	it('should apply Cookie Store API change events when available', async () => {
+		const cookieStore = new EventTarget();
+		vi.stubGlobal('cookieStore', cookieStore);
+
+		const state = persistedState<string>('cookieKey', 'cookieInitial', { storage: 'cookie' });
+		await waitForNextTick();
+
+		const change = Object.assign(new Event('change'), {
+			changed: [{ name: 'cookieKey', value: encodeURIComponent('"fromServer"') }],
+			deleted: []
+		});
+		cookieStore.dispatchEvent(change);
+
+		expect(state.current).toBe('fromServer');
+
+		vi.unstubAllGlobals();
+	});
+
+	// ---- SSR ----
+
+	it('should read cookie-backed values from server cookies', () => {
+		const cookies = new Map([['cookieKey', JSON.stringify({ total: 4 })]]);
+		const value = readPersistedCookie<TestState>(
+			{ get: (name) => cookies.get(name) },
+			'cookieKey',
+			{ count: 0 },
+			{ version: 1, migrations: { 1: (v: { total: number }) => ({ count: v.total }) } }
+		);
+
+		expect(value).toEqual({ count: 4 });
+	});
+
+	it('should fall back to the initial value for missing or invalid server cookies', () => {
+		const onParseError = vi.fn();
+		const cookies = new Map([['broken', 'not JSON']]);
+		const get = (name: string) => cookies.get(name);
+
+		expect(readPersistedCookie({ get }, 'missing', 'initial')).toBe('initial');
+		expect(readPersistedCookie({ get }, 'broken', 'initial', { onParseError })).toBe('initial');
+		expect(onParseError).toHaveBeenCalled();
+	});
+
+	it('should ignore expired server cookies', () => {
+		const expired = JSON.stringify({ __sps: 1, expiresAt: Date.now() - 1, data: '"dark"' });
+
+		expect(readPersistedCookie({ get: () => expired }, 'cookieKey', 'light')).toBe('light');
+	});
+
+	it('should use serverValue while nothing can be read from storage', () => {
+		const state = persistedState<string>('cookieKey', 'light', {
+			storage: 'cookie',
+			serverValue: 'dark'
+		});
+
+		expect(state.current).toBe('dark');
+	});
+
+	it('should prefer the stored cookie over serverValue', () => {
+		document.cookie = `cookieKey=${encodeURIComponent('"dark"')};path=/`;
+		const state = persistedState<string>('cookieKey', 'light', {
+			storage: 'cookie',
+			serverValue: 'system'
+		});
+
+		expect(state.current).toBe('dark');
+	});
+
+	// ---- sessionStorage window sync ----
+
+	it('should sync sessionStorage between windows of the same session when enabled', async () => {
+		const state1 = persistedState<string>('sessionKey', 'initial', {
+			storage: 'session',
+			syncSessionWindows: true
+		});
+		const state2 = persistedState<string>('sessionKey', 'initial', {
+			storage: 'session',
+			syncSessionWindows: true
+		});
+		await waitForNextTick();
+
+		state1.current = 'shared';
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(state2.current).toBe('shared');
+	});
+
+	it('should ignore sessionStorage changes from other sessions', async () => {
+		const state = persistedState<string>('sessionKey', 'initial', {
+			storage: 'session',
+			syncSessionWindows: true
+		});
+		await waitForNextTick();
+
+		const channel = new BroadcastChannel('svelte-persisted-state:session');
+		channel.postMessage({ key: 'sessionKey', value: '"foreign"', group: 'other-session' });
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		channel.close();
+
+		expect(state.current).toBe('initial');
+	});
+
+	it('should not sync sessionStorage by default', async () => {
+		const state1 = persistedState<string>('sessionKey', 'initial', { storage: 'session' });
+		const state2 = persistedState<string>('sessionKey', 'initial', { storage: 'session' });
+		await waitForNextTick();
+
+		state1.current = 'local only';
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(state2.current).toBe('initial');
 	});
 });